@@ -1,6 +1,9 @@
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import { ProfileManager } from './components/ProfileManager';
 import { RpcSettings } from './components/RpcSettings';
+import { FeeSettings } from './components/FeeSettings';
+import { RecentTransactions } from './components/RecentTransactions';
+import { ClusterStatusBadge } from './components/ClusterStatus';
 
 function App() {
   return (
@@ -33,13 +36,12 @@ function App() {
           
           {/* Controls */}
           <div className="flex items-center gap-2 sm:gap-3 md:gap-4 shrink-0">
-            {/* System Status */}
-            <div className="hidden lg:flex items-center gap-2 px-3 sm:px-4 py-1.5 sm:py-2 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
-              <div className="status-indicator active"></div>
-              <span className="font-mono text-xs sm:text-sm text-[var(--sa-text-dim)] uppercase tracking-wider whitespace-nowrap">System Online</span>
-            </div>
+            {/* Cluster Status */}
+            <ClusterStatusBadge variant="header" />
             
             <RpcSettings />
+            <FeeSettings />
+            <RecentTransactions />
             <WalletMultiButton />
           </div>
         </div>
@@ -59,9 +61,7 @@ function App() {
           <div className="flex flex-col md:flex-row justify-between items-center gap-4">
             {/* Left side */}
             <div className="flex items-center gap-6">
-              <span className="font-mono text-sm text-[var(--sa-text-dim)] tracking-wider opacity-60 hover:opacity-100 transition-opacity">
-                SYSTEM /// ONLINE
-              </span>
+              <ClusterStatusBadge variant="footer" />
               <span className="font-mono text-sm text-[var(--sa-accent)] tracking-wider font-semibold">
                 v1.0.0
               </span>
@@ -0,0 +1,359 @@
+import { useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { BN } from '@staratlas/anchor';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { ixReturnsToIxs, walletToAsyncSigner } from '@staratlas/data-source';
+import { useClusterStatus } from './ClusterStatus';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { ErrorState, decodeError } from '../utils/errors';
+import {
+    PROFILE_PERMISSION_FLAGS,
+    ProfilePermissionFlag,
+    RawPermissions,
+} from '../utils/permissions';
+import { applyPriorityFee } from '../utils/priorityFees';
+import { sendAndConfirm } from '../utils/sendTransaction';
+
+type AddKeyStep = 'form' | 'preview' | 'complete';
+
+type ScopeMode = 'profile' | 'custom';
+
+interface AddKeyPreview {
+    transaction: Transaction;
+    key: PublicKey;
+    scope: PublicKey;
+    expireTime: BN | null;
+    permissions: RawPermissions;
+}
+
+interface AddKeyModalProps {
+    profile: PlayerProfile;
+    program: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onKeyAdded: () => void;
+}
+
+// Flags that can be granted through addKeys (auth keys are managed by adjustAuth)
+const ADDABLE_PROFILE_FLAGS = PROFILE_PERMISSION_FLAGS.filter(({ flag }) => flag !== 'auth');
+
+const emptyProfileFlags = (): Record<ProfilePermissionFlag, boolean> =>
+    Object.fromEntries(PROFILE_PERMISSION_FLAGS.map(({ flag }) => [flag, false])) as Record<ProfilePermissionFlag, boolean>;
+
+export const AddKeyModal = ({ profile, program, onClose, onKeyAdded }: AddKeyModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const { clusterNow } = useClusterStatus();
+    const [step, setStep] = useState<AddKeyStep>('form');
+    const [keyInput, setKeyInput] = useState('');
+    const [scopeMode, setScopeMode] = useState<ScopeMode>('profile');
+    const [customScope, setCustomScope] = useState('');
+    const [neverExpires, setNeverExpires] = useState(true);
+    const [expiryInput, setExpiryInput] = useState('');
+    const [profileFlags, setProfileFlags] = useState(emptyProfileFlags);
+    const [rawPermissions, setRawPermissions] = useState('0x0');
+    const [preview, setPreview] = useState<AddKeyPreview | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const previewTransactions = useMemo(() => preview ? [preview.transaction] : [], [preview]);
+
+    const buildPermissions = (): RawPermissions => {
+        if (scopeMode === 'profile') {
+            const flags = ADDABLE_PROFILE_FLAGS.filter(({ flag }) => profileFlags[flag]).map(({ flag }) => flag);
+            return RawPermissions.fromFlags(PROFILE_PERMISSION_FLAGS, flags);
+        }
+        return RawPermissions.fromHex(rawPermissions);
+    };
+
+    const handleBuildPreview = async () => {
+        if (!wallet.publicKey) return;
+        setError(null);
+
+        let key: PublicKey;
+        let scope: PublicKey;
+        let permissions: RawPermissions;
+        try {
+            key = new PublicKey(keyInput.trim());
+        } catch {
+            setError('Invalid key address');
+            return;
+        }
+        try {
+            scope = scopeMode === 'profile' ? program.programId : new PublicKey(customScope.trim());
+        } catch {
+            setError('Invalid scope program ID');
+            return;
+        }
+        try {
+            permissions = buildPermissions();
+        } catch (e) {
+            setError(`Invalid permissions: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        if (permissions.isEmpty()) {
+            setError('Select at least one permission');
+            return;
+        }
+
+        let expireTime: BN | null = null;
+        if (!neverExpires) {
+            const expiry = new Date(expiryInput).getTime();
+            if (!expiryInput || Number.isNaN(expiry)) {
+                setError('Enter an expiry date or choose "Never"');
+                return;
+            }
+            if (expiry <= clusterNow()) {
+                setError('Expiry must be in the future');
+                return;
+            }
+            expireTime = new BN(Math.floor(expiry / 1000));
+        }
+
+        setProcessing(true);
+        try {
+            const asyncSigner = walletToAsyncSigner(wallet as any);
+            const ixReturn = PlayerProfile.addKeys(
+                program,
+                asyncSigner,
+                profile,
+                RawPermissions,
+                scope,
+                [{ key, expireTime, permissions }],
+            );
+            const instructions = await ixReturnsToIxs(ixReturn, asyncSigner);
+
+            const tx = new Transaction().add(...instructions);
+            tx.feePayer = wallet.publicKey;
+            await applyPriorityFee(connection, tx);
+
+            setPreview({ transaction: tx, key, scope, expireTime, permissions });
+            setStep('preview');
+        } catch (e) {
+            console.error('Error building addKeys transaction:', e);
+            setError(decodeError(e, 'Failed to build transaction'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction || !preview) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            const tx = preview.transaction;
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            tx.recentBlockhash = blockhash;
+
+            const signed = await wallet.signTransaction(tx);
+            const sig = await sendAndConfirm(connection, signed, {
+                lastValidBlockHeight,
+                onStatus: trackStatus('Add Key', profile.key),
+            });
+            setSignature(sig);
+            setStep('complete');
+            onKeyAdded();
+        } catch (e) {
+            console.error('Error adding key:', e);
+            setError(decodeError(e, 'Failed to add key'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const existingEntry = (() => {
+        try {
+            const key = new PublicKey(keyInput.trim());
+            return profile.profileKeys.find(k => k.key.equals(key)) || null;
+        } catch {
+            return null;
+        }
+    })();
+
+    const renderForm = () => (
+        <>
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-accent)] uppercase tracking-wider font-bold mb-2">
+                    Key Public Key
+                </label>
+                <input
+                    type="text"
+                    value={keyInput}
+                    onChange={(e) => { setKeyInput(e.target.value); setError(null); }}
+                    className="sage-input"
+                    placeholder="Enter the Solana address to add..."
+                />
+                {existingEntry && (
+                    <p className="font-mono text-xs text-amber-400 mt-1">This key already has an entry on the profile.</p>
+                )}
+            </div>
+
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Scope</label>
+                <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 w-fit mb-2">
+                    {(['profile', 'custom'] as ScopeMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setScopeMode(mode)}
+                            className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                scopeMode === mode
+                                    ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                    : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                            }`}
+                        >
+                            {mode === 'profile' ? 'Profile Program' : 'Custom Program'}
+                        </button>
+                    ))}
+                </div>
+                {scopeMode === 'profile' ? (
+                    <p className="font-mono text-xs text-[var(--sa-text-dim)] break-all">{program.programId.toBase58()}</p>
+                ) : (
+                    <input
+                        type="text"
+                        value={customScope}
+                        onChange={(e) => setCustomScope(e.target.value)}
+                        className="sage-input py-2 text-xs"
+                        placeholder="Program ID the key is scoped to..."
+                    />
+                )}
+            </div>
+
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Expiry</label>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 font-mono text-sm text-[var(--sa-text)] cursor-pointer">
+                        <input type="checkbox" checked={neverExpires} onChange={(e) => setNeverExpires(e.target.checked)} />
+                        Never expires
+                    </label>
+                    {!neverExpires && (
+                        <input
+                            type="datetime-local"
+                            value={expiryInput}
+                            onChange={(e) => setExpiryInput(e.target.value)}
+                            className="sage-input py-2 text-xs flex-1"
+                        />
+                    )}
+                </div>
+            </div>
+
+            <div className="mb-6">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Permissions</label>
+                {scopeMode === 'profile' ? (
+                    <div className="grid grid-cols-2 gap-1.5 p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                        {ADDABLE_PROFILE_FLAGS.map(({ flag, label }) => (
+                            <label key={flag} className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text)] cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={profileFlags[flag]}
+                                    onChange={(e) => setProfileFlags(prev => ({ ...prev, [flag]: e.target.checked }))}
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        <input
+                            type="text"
+                            value={rawPermissions}
+                            onChange={(e) => setRawPermissions(e.target.value)}
+                            className="sage-input py-2 text-xs"
+                            placeholder="0x0"
+                        />
+                        <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">64-bit permission bitmask as defined by the scoped program.</p>
+                    </>
+                )}
+            </div>
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleBuildPreview}
+                    disabled={processing || !keyInput.trim()}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Building...' : 'Preview'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderPreview = () => {
+        if (!preview) return null;
+
+        return (
+            <>
+                <div className="bg-amber-500/10 border border-amber-500/30 p-4 mb-4">
+                    <p className="font-mono text-sm text-amber-300 tracking-wide leading-relaxed">
+                        <strong>→ REVIEW:</strong> This transaction calls <strong>addKeys</strong> on the profile with the changes below.
+                    </p>
+                </div>
+                <TransactionPreview transactions={previewTransactions} program={program} />
+                {error && <ErrorNotice error={error} />}
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => { setStep('form'); setError(null); }}
+                        disabled={processing}
+                        className="sage-button-secondary px-5 py-2.5 disabled:opacity-50"
+                    >
+                        Back
+                    </button>
+                    <button
+                        onClick={handleSend}
+                        disabled={processing}
+                        className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {processing ? 'Sending...' : 'Sign & Send'}
+                    </button>
+                </div>
+            </>
+        );
+    };
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide leading-relaxed">
+                    Key <strong>{preview?.key.toBase58()}</strong> was added to the profile.
+                </p>
+                {signature && (
+                    <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
+                        {step === 'form' ? '0001.' : step === 'preview' ? '0002.' : '0003.'}
+                    </span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'form' ? 'ADD KEY' : step === 'preview' ? 'REVIEW KEY' : 'KEY ADDED'}
+                    </h3>
+                </div>
+                <div className="mb-4 p-2.5 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Profile: </span>
+                    <span className="font-mono text-xs text-cyan-400 break-all">{profile.key.toBase58()}</span>
+                </div>
+                {step === 'form' && renderForm()}
+                {step === 'preview' && renderPreview()}
+                {step === 'complete' && renderComplete()}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,376 @@
+import { useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { MAX_TRANSACTION_SIZE, walletToAsyncSigner } from '@staratlas/data-source';
+import { CoSignerPicker } from './CoSignerPicker';
+import { ErrorNotice } from './ErrorNotice';
+import { NonceAccountPicker } from './NonceAccountPicker';
+import { SignatureSession } from './SignatureCollectionModal';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { buildAdjustAuthInstructions } from '../utils/adjustAuth';
+import { ErrorState, decodeError } from '../utils/errors';
+import { getDurableNonceInfo, getNonceAdvance } from '../utils/nonce';
+import { applyPriorityFee, computeBudgetPlaceholder } from '../utils/priorityFees';
+import { getAuthKeys } from '../utils/profileKeys';
+import { sendAndConfirm } from '../utils/sendTransaction';
+import { getInstructionsSize } from '../utils/transactions';
+
+type AuthEditorStep = 'form' | 'preview' | 'complete';
+
+interface AuthKeyEditorModalProps {
+    profile: PlayerProfile;
+    program: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onUpdated: () => void;
+    onCollectSignatures: (session: SignatureSession) => void;
+}
+
+// Adds, removes or swaps any number of auth keys in one transaction
+export const AuthKeyEditorModal = ({ profile, program, onClose, onUpdated, onCollectSignatures }: AuthKeyEditorModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [step, setStep] = useState<AuthEditorStep>('form');
+    const [removeIndexes, setRemoveIndexes] = useState<number[]>([]);
+    const [newKeyInputs, setNewKeyInputs] = useState<string[]>(['']);
+    const [thresholdInput, setThresholdInput] = useState(String(profile.data.keyThreshold));
+    const [coSigners, setCoSigners] = useState<string[]>([]);
+    // Lets co-signers and new auth keys on other devices take longer than a blockhash lasts
+    const [nonceAccount, setNonceAccount] = useState<string | null>(null);
+    const [transaction, setTransaction] = useState<Transaction | null>(null);
+    const [needsCollection, setNeedsCollection] = useState(false);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const previewTransactions = useMemo(() => transaction ? [transaction] : [], [transaction]);
+
+    const authKeys = getAuthKeys(profile, program.programId);
+    const currentThreshold = profile.data.keyThreshold;
+    const newKeyCount = newKeyInputs.filter(k => k.trim()).length;
+    const finalAuthCount = authKeys.length - removeIndexes.length + newKeyCount;
+    const newThreshold = Number(thresholdInput);
+    const validThreshold = Number.isInteger(newThreshold) && newThreshold >= 1;
+    const locksProfile = finalAuthCount < 1 || (validThreshold && newThreshold > finalAuthCount);
+    const needsEveryKey = validThreshold && newThreshold === finalAuthCount && finalAuthCount > 1;
+    const removesWallet = !!wallet.publicKey && authKeys.some(a => removeIndexes.includes(a.index) && a.key.equals(wallet.publicKey!));
+
+    const toggleRemove = (index: number) => {
+        setRemoveIndexes(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+        setError(null);
+    };
+
+    const updateNewKey = (i: number, value: string) => {
+        setNewKeyInputs(prev => prev.map((k, j) => (j === i ? value : k)));
+        setError(null);
+    };
+
+    const handleBuildPreview = async () => {
+        if (!wallet.publicKey) return;
+        setError(null);
+
+        const newAuthKeys: PublicKey[] = [];
+        for (const input of newKeyInputs.filter(k => k.trim())) {
+            let key: PublicKey;
+            try {
+                key = new PublicKey(input.trim());
+            } catch {
+                setError(`Invalid key address: ${input.trim()}`);
+                return;
+            }
+            if (newAuthKeys.some(k => k.equals(key))) {
+                setError(`${key.toBase58()} is listed twice`);
+                return;
+            }
+            if (authKeys.some(a => a.key.equals(key))) {
+                setError(`${key.toBase58()} is already an auth key on this profile`);
+                return;
+            }
+            newAuthKeys.push(key);
+        }
+
+        if (newAuthKeys.length === 0 && removeIndexes.length === 0 && newThreshold === currentThreshold) {
+            setError('Add or remove at least one auth key');
+            return;
+        }
+        if (finalAuthCount < 1) {
+            setError('The profile must keep at least one auth key');
+            return;
+        }
+        if (!validThreshold || newThreshold > finalAuthCount) {
+            setError(`Threshold must be between 1 and the remaining auth key count (${finalAuthCount})`);
+            return;
+        }
+        if (coSigners.length !== currentThreshold - 1) {
+            setError(`Select ${currentThreshold - 1} co-signing auth ${currentThreshold - 1 === 1 ? 'key' : 'keys'}`);
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const instructions = await buildAdjustAuthInstructions(program, profile, walletToAsyncSigner(wallet as any), {
+                coSigners: coSigners.map(k => new PublicKey(k)),
+                newAuthKeys,
+                removeIndexes,
+                newKeyThreshold: newThreshold,
+            });
+            const signers = [wallet.publicKey, ...coSigners.map(k => new PublicKey(k)), ...newAuthKeys];
+            const advance = nonceAccount ? await getNonceAdvance(connection, new PublicKey(nonceAccount), signers) : null;
+            const prefix = advance ? [advance.instruction, ...computeBudgetPlaceholder()] : computeBudgetPlaceholder();
+            if (getInstructionsSize([...prefix, ...instructions], wallet.publicKey) > MAX_TRANSACTION_SIZE) {
+                setError('This change does not fit in a single transaction. Split it into smaller changes.');
+                return;
+            }
+            const tx = new Transaction();
+            if (advance) {
+                tx.add(advance.instruction);
+                tx.recentBlockhash = advance.nonce;
+            }
+            tx.add(...instructions);
+            tx.feePayer = wallet.publicKey;
+            await applyPriorityFee(connection, tx);
+            setTransaction(tx);
+            setNeedsCollection(coSigners.length > 0 || newAuthKeys.length > 0);
+            setStep('preview');
+        } catch (e) {
+            console.error('Error building adjustAuth transaction:', e);
+            setError(decodeError(e, 'Failed to build transaction'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction || !transaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            // A durable nonce transaction already carries its nonce in place of the blockhash
+            let lastValidBlockHeight: number | undefined;
+            if (!getDurableNonceInfo(transaction)) {
+                const latest = await connection.getLatestBlockhash();
+                transaction.recentBlockhash = latest.blockhash;
+                lastValidBlockHeight = latest.lastValidBlockHeight;
+            }
+
+            // New auth keys must sign too, so anything beyond the connected wallet goes through collection
+            if (needsCollection) {
+                onCollectSignatures({ transaction, profile, operation: 'adjustAuth' });
+                onClose();
+                return;
+            }
+
+            const signed = await wallet.signTransaction(transaction);
+            const sig = await sendAndConfirm(connection, signed, {
+                lastValidBlockHeight,
+                onStatus: trackStatus('Adjust Auth Keys', profile.key),
+            });
+            setSignature(sig);
+            setStep('complete');
+            onUpdated();
+        } catch (e) {
+            console.error('Error adjusting auth keys:', e);
+            setError(decodeError(e, 'Failed to adjust auth keys'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const renderForm = () => (
+        <>
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Current Auth Keys</label>
+                <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)]">
+                    {authKeys.map(entry => {
+                        const removing = removeIndexes.includes(entry.index);
+                        const isWallet = !!wallet.publicKey && entry.key.equals(wallet.publicKey);
+                        return (
+                            <label key={entry.index} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                                <input type="checkbox" checked={removing} onChange={() => toggleRemove(entry.index)} />
+                                <span className="font-mono text-xs text-[var(--sa-text-dim)]">#{entry.index}</span>
+                                <span className={`font-mono text-xs break-all flex-1 ${removing ? 'text-red-400 line-through' : 'text-[var(--sa-text)]'}`}>
+                                    {entry.key.toBase58()}
+                                </span>
+                                {isWallet && <span className="font-mono text-xs text-emerald-400 uppercase tracking-wider">You</span>}
+                            </label>
+                        );
+                    })}
+                </div>
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">Tick the keys to remove, such as a lost wallet.</p>
+            </div>
+
+            <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                    <label className="font-mono text-sm text-[var(--sa-accent)] uppercase tracking-wider font-bold">New Auth Keys</label>
+                    <button
+                        onClick={() => setNewKeyInputs(prev => [...prev, ''])}
+                        className="font-mono text-xs text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider"
+                    >
+                        + ANOTHER
+                    </button>
+                </div>
+                <div className="space-y-2">
+                    {newKeyInputs.map((value, i) => (
+                        <div key={i} className="flex gap-2">
+                            <input
+                                type="text"
+                                value={value}
+                                onChange={(e) => updateNewKey(i, e.target.value)}
+                                className="sage-input py-2 text-xs flex-1"
+                                placeholder="Address of a backup or replacement auth key..."
+                            />
+                            {newKeyInputs.length > 1 && (
+                                <button
+                                    onClick={() => setNewKeyInputs(prev => prev.filter((_, j) => j !== i))}
+                                    className="font-mono text-xs text-red-400 hover:text-red-300 uppercase tracking-wider px-2"
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">New auth keys must co-sign the transaction.</p>
+            </div>
+
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Key Threshold</label>
+                <input
+                    type="number"
+                    min={1}
+                    max={Math.max(finalAuthCount, 1)}
+                    value={thresholdInput}
+                    onChange={(e) => { setThresholdInput(e.target.value); setError(null); }}
+                    className="sage-input py-2 text-xs"
+                />
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">
+                    {authKeys.length} auth keys now, {finalAuthCount} after this change.
+                </p>
+            </div>
+
+            {locksProfile && (
+                <div className="bg-red-500/15 border-2 border-red-500 p-4 mb-4">
+                    <p className="font-mono text-sm text-red-400 font-bold uppercase tracking-wider mb-1">⚠ This would lock the profile</p>
+                    <p className="font-mono text-xs text-red-300 leading-relaxed">
+                        {finalAuthCount < 1
+                            ? 'No auth key would be left. Nobody could ever manage this profile again.'
+                            : `${newThreshold} signatures would be required but only ${finalAuthCount} auth ${finalAuthCount === 1 ? 'key' : 'keys'} would remain.`}
+                    </p>
+                </div>
+            )}
+            {!locksProfile && needsEveryKey && (
+                <div className="bg-amber-500/10 border-2 border-amber-500/60 p-4 mb-4">
+                    <p className="font-mono text-sm text-amber-300 font-bold uppercase tracking-wider mb-1">⚠ Every auth key must sign</p>
+                    <p className="font-mono text-xs text-amber-300/90 leading-relaxed">
+                        With a threshold equal to the auth key count, losing access to any single auth key locks the profile's
+                        auth settings permanently.
+                    </p>
+                </div>
+            )}
+            {removesWallet && (
+                <div className="bg-amber-500/10 border border-amber-500/30 p-3 mb-4">
+                    <p className="font-mono text-xs text-amber-300">
+                        The connected wallet is being removed and will no longer be able to manage this profile.
+                    </p>
+                </div>
+            )}
+
+            {currentThreshold > 1 && wallet.publicKey && (
+                <CoSignerPicker
+                    profile={profile}
+                    program={program}
+                    signer={wallet.publicKey.toBase58()}
+                    selected={coSigners}
+                    onChange={(selected) => { setCoSigners(selected); setError(null); }}
+                />
+            )}
+            {(currentThreshold > 1 || newKeyInputs.some(k => k.trim())) && (
+                <NonceAccountPicker selected={nonceAccount} onChange={(address) => { setNonceAccount(address); setError(null); }} />
+            )}
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleBuildPreview}
+                    disabled={processing || locksProfile}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Building...' : 'Preview'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderPreview = () => (
+        <>
+            <div className="bg-amber-500/10 border border-amber-500/30 p-4 mb-4">
+                <p className="font-mono text-sm text-amber-300 tracking-wide leading-relaxed">
+                    <strong>→ REVIEW:</strong> This transaction calls <strong>adjustAuth</strong> with the changes below.
+                    {needsCollection && ' The co-signers and new auth keys sign next.'}
+                </p>
+            </div>
+            <TransactionPreview transactions={previewTransactions} program={program} />
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={() => { setStep('form'); setError(null); }}
+                    disabled={processing}
+                    className="sage-button-secondary px-5 py-2.5 disabled:opacity-50"
+                >
+                    Back
+                </button>
+                <button
+                    onClick={handleSend}
+                    disabled={processing}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Sending...' : needsCollection ? 'Collect Signatures' : 'Sign & Send'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide leading-relaxed">
+                    The auth keys were updated.
+                </p>
+                {signature && (
+                    <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
+                        {step === 'form' ? '0001.' : step === 'preview' ? '0002.' : '0003.'}
+                    </span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'form' ? 'AUTH KEYS' : step === 'preview' ? 'REVIEW AUTH KEYS' : 'AUTH KEYS UPDATED'}
+                    </h3>
+                </div>
+                <div className="mb-4 p-2.5 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Profile: </span>
+                    <span className="font-mono text-xs text-cyan-400 break-all">{profile.key.toBase58()}</span>
+                </div>
+                {step === 'form' && renderForm()}
+                {step === 'preview' && renderPreview()}
+                {step === 'complete' && renderComplete()}
+            </div>
+        </div>
+    );
+};
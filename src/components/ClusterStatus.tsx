@@ -0,0 +1,124 @@
+import { FC, ReactNode, createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { useRpcSettings } from './WalletContextProvider';
+import { CLUSTER_STATUS_INTERVAL_MS, ClusterHealth, ClusterStatus, fetchClusterStatus } from '../utils/clusterStatus';
+
+// Drift worth pointing out, the Clock sysvar itself only has one second resolution
+const NOTABLE_DRIFT_SECONDS = 30;
+
+const ClusterStatusContext = createContext<{
+    status: ClusterStatus | null;
+    // Current time in milliseconds on the cluster clock, the local clock until the first check
+    clusterNow: () => number;
+}>({
+    status: null,
+    clusterNow: () => Date.now(),
+});
+
+export const useClusterStatus = () => useContext(ClusterStatusContext);
+
+export const ClusterStatusProvider: FC<{ children: ReactNode }> = ({ children }) => {
+    const { connection } = useConnection();
+    const { activeEndpoint } = useRpcSettings();
+    const hasEndpoint = !!activeEndpoint;
+    const [status, setStatus] = useState<ClusterStatus | null>(null);
+    const driftRef = useRef(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        let previous: ClusterStatus | null = null;
+        setStatus(null);
+        // Without an endpoint of its own the connection is the mainnet fallback, not this network
+        if (!hasEndpoint) {
+            driftRef.current = 0;
+            return;
+        }
+
+        const refresh = async () => {
+            // Background tabs skip polls, the next visible one catches up
+            if (document.hidden && previous) return;
+            const next = await fetchClusterStatus(connection, previous);
+            if (cancelled) return;
+            previous = next;
+            if (next.driftSeconds !== null) driftRef.current = next.driftSeconds;
+            setStatus(next);
+        };
+
+        refresh();
+        const interval = setInterval(refresh, CLUSTER_STATUS_INTERVAL_MS);
+        return () => { cancelled = true; clearInterval(interval); };
+    }, [connection, hasEndpoint]);
+
+    const clusterNow = useCallback(() => Date.now() + driftRef.current * 1000, []);
+
+    return (
+        <ClusterStatusContext.Provider value={{ status, clusterNow }}>
+            {children}
+        </ClusterStatusContext.Provider>
+    );
+};
+
+const HEALTH_LABELS: Record<ClusterHealth, string> = {
+    online: 'Online',
+    degraded: 'Degraded',
+    offline: 'Offline',
+};
+
+const HEALTH_TEXT_STYLES: Record<ClusterHealth, string> = {
+    online: 'text-[var(--sa-text-dim)]',
+    degraded: 'text-amber-400',
+    offline: 'text-red-400',
+};
+
+const formatDrift = (seconds: number) => `${seconds >= 0 ? '+' : '-'}${Math.abs(seconds)}s`;
+
+const describeStatus = (status: ClusterStatus) => [
+    status.reason,
+    status.slot !== null && `Slot ${status.slot.toLocaleString()}`,
+    status.latencyMs !== null && `Latency ${status.latencyMs}ms`,
+    status.tps !== null && `${status.tps.toLocaleString()} TPS`,
+    status.driftSeconds !== null && `Clock drift ${formatDrift(status.driftSeconds)} (cluster vs. this device)`,
+    `Checked ${new Date(status.checkedAt).toLocaleTimeString()}`,
+].filter(Boolean).join('\n');
+
+export const ClusterStatusBadge = ({ variant }: { variant: 'header' | 'footer' }) => {
+    const { status } = useClusterStatus();
+    const { activeEndpoint } = useRpcSettings();
+    const health = status?.health;
+    const label = health ? HEALTH_LABELS[health] : activeEndpoint ? 'Connecting' : 'No RPC';
+    const driftNotable = status?.driftSeconds != null && Math.abs(status.driftSeconds) >= NOTABLE_DRIFT_SECONDS;
+
+    if (variant === 'footer') {
+        return (
+            <span
+                title={status ? describeStatus(status) : undefined}
+                className={`font-mono text-sm tracking-wider uppercase ${health && health !== 'online' ? HEALTH_TEXT_STYLES[health] : 'text-[var(--sa-text-dim)] opacity-60 hover:opacity-100 transition-opacity'}`}
+            >
+                CLUSTER /// {label}
+                {status?.slot != null && ` · SLOT ${status.slot.toLocaleString()}`}
+            </span>
+        );
+    }
+
+    return (
+        <div
+            title={status ? describeStatus(status) : undefined}
+            className="hidden lg:flex items-center gap-2 px-3 sm:px-4 py-1.5 sm:py-2 bg-[var(--sa-dark)] border border-[var(--sa-border)]"
+        >
+            <div className={`status-indicator ${health === 'online' ? 'active' : health ?? ''}`}></div>
+            <span className={`font-mono text-xs sm:text-sm uppercase tracking-wider whitespace-nowrap ${health ? HEALTH_TEXT_STYLES[health] : 'text-[var(--sa-text-dim)]'}`}>
+                {label}
+            </span>
+            {status && status.health !== 'offline' && (
+                <span className="hidden xl:inline font-mono text-xs text-[var(--sa-text-dim)] whitespace-nowrap">
+                    {status.slot !== null && `Slot ${status.slot.toLocaleString()} · `}
+                    {status.latencyMs}ms
+                    {status.tps !== null && ` · ${status.tps.toLocaleString()} TPS`}
+                    {status.driftSeconds !== null && (
+                        <span className={driftNotable ? 'text-amber-400' : undefined}> · Δ{formatDrift(status.driftSeconds)}</span>
+                    )}
+                </span>
+            )}
+        </div>
+    );
+};
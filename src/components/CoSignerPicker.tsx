@@ -0,0 +1,46 @@
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { getAuthKeys } from '../utils/profileKeys';
+
+interface CoSignerPickerProps {
+    profile: PlayerProfile;
+    program: PlayerProfileIDLProgram;
+    signer: string; // Auth key that signs first, not offered as a co-signer
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+// Picks the other auth keys that sign an adjustAuth when the profile's key threshold is above 1
+export const CoSignerPicker = ({ profile, program, signer, selected, onChange }: CoSignerPickerProps) => {
+    const required = profile.data.keyThreshold - 1;
+
+    return (
+        <div className="mb-4">
+            <label className="block font-mono text-sm text-[var(--sa-accent)] uppercase tracking-wider font-bold mb-2">
+                Co-signing Auth Keys ({selected.length}/{required})
+            </label>
+            <p className="font-mono text-xs text-[var(--sa-text-dim)] mb-2 leading-relaxed">
+                This profile needs {profile.data.keyThreshold} auth signatures. Pick the other auth keys that will sign;
+                their signatures are collected after yours.
+            </p>
+            <div className="p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)] space-y-1.5">
+                {getAuthKeys(profile, program.programId)
+                    .filter(entry => entry.key.toBase58() !== signer)
+                    .map(entry => {
+                        const address = entry.key.toBase58();
+                        const checked = selected.includes(address);
+                        return (
+                            <label key={address} className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text)] cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={checked}
+                                    onChange={() => onChange(checked ? selected.filter(k => k !== address) : [...selected, address])}
+                                />
+                                <span className="text-[var(--sa-text-dim)]">#{entry.index}</span>
+                                <span className="break-all">{address}</span>
+                            </label>
+                        );
+                    })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,632 @@
+import { useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { Keypair, LAMPORTS_PER_SOL, PublicKey, Transaction } from '@solana/web3.js';
+import { BN } from '@staratlas/anchor';
+import {
+    KeyEntry,
+    PROFILE_KEY_MIN_DATA_SIZE,
+    PlayerProfile,
+    PlayerProfileIDLProgram,
+    ProfilePermissions,
+} from '@staratlas/player-profile';
+import {
+    MAX_TRANSACTION_SIZE,
+    createDummyAsyncSigner,
+    ixReturnsToIxs,
+    keypairToAsyncSigner,
+    walletToAsyncSigner,
+} from '@staratlas/data-source';
+import { useClusterStatus } from './ClusterStatus';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionExport } from './TransactionExport';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { ErrorState, decodeError } from '../utils/errors';
+import { playerNameAccountSize, validateProfileName } from '../utils/playerName';
+import { PROFILE_PERMISSION_FLAGS, ProfilePermissionFlag, RawPermissions } from '../utils/permissions';
+import { applyPriorityFee, computeBudgetPlaceholder } from '../utils/priorityFees';
+import { sendAndConfirm } from '../utils/sendTransaction';
+import { getInstructionsSize } from '../utils/transactions';
+
+type CreateProfileStep = 'form' | 'preview' | 'cosign' | 'complete';
+
+type ScopeMode = 'profile' | 'custom';
+
+interface KeyDraft {
+    id: number;
+    key: string;
+    auth: boolean;
+    scopeMode: ScopeMode;
+    customScope: string;
+    neverExpires: boolean;
+    expiry: string;
+    profileFlags: Record<ProfilePermissionFlag, boolean>;
+    rawPermissions: string;
+}
+
+interface CreateProfilePreview {
+    transaction: Transaction;
+    profileAccount: PublicKey;
+    name: string | null;
+    keyCount: number;
+    keyThreshold: number;
+    // Auth keys other than the connected wallet, which co-sign on their own device
+    externalSigners: PublicKey[];
+    profileRent: number;
+    nameRent: number;
+}
+
+interface CreateProfileModalProps {
+    program: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onCreated: () => void;
+}
+
+// Flags granted to non-auth keys; the auth flag is set through the key's Auth toggle
+const DELEGATE_PROFILE_FLAGS = PROFILE_PERMISSION_FLAGS.filter(({ flag }) => flag !== 'auth');
+
+const emptyProfileFlags = (): Record<ProfilePermissionFlag, boolean> =>
+    Object.fromEntries(PROFILE_PERMISSION_FLAGS.map(({ flag }) => [flag, false])) as Record<ProfilePermissionFlag, boolean>;
+
+const newKeyDraft = (id: number): KeyDraft => ({
+    id,
+    key: '',
+    auth: false,
+    scopeMode: 'profile',
+    customScope: '',
+    neverExpires: true,
+    expiry: '',
+    profileFlags: emptyProfileFlags(),
+    rawPermissions: '0x0',
+});
+
+// Size of a profile account holding the given number of keys
+const profileAccountSize = (keyCount: number) => PlayerProfile.MIN_DATA_SIZE + 2 + keyCount * PROFILE_KEY_MIN_DATA_SIZE;
+
+const formatSol = (lamports: number) => `${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`;
+
+export const CreateProfileModal = ({ program, onClose, onCreated }: CreateProfileModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const { clusterNow } = useClusterStatus();
+    const [step, setStep] = useState<CreateProfileStep>('form');
+    const [profileKeypair, setProfileKeypair] = useState(() => Keypair.generate());
+    const [authKeyInput, setAuthKeyInput] = useState(wallet.publicKey?.toBase58() || '');
+    const [extraKeys, setExtraKeys] = useState<KeyDraft[]>([]);
+    const [nextKeyId, setNextKeyId] = useState(0);
+    const [thresholdInput, setThresholdInput] = useState('1');
+    const [nameInput, setNameInput] = useState('');
+    const [preview, setPreview] = useState<CreateProfilePreview | null>(null);
+    const [partiallySignedTx, setPartiallySignedTx] = useState<string | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const previewTransactions = useMemo(() => preview ? [preview.transaction] : [], [preview]);
+
+    const authKeyCount = 1 + extraKeys.filter(k => k.auth).length;
+
+    const updateKey = (id: number, changes: Partial<KeyDraft>) => {
+        setExtraKeys(prev => prev.map(k => (k.id === id ? { ...k, ...changes } : k)));
+        setError(null);
+    };
+
+    const addKeyDraft = () => {
+        setExtraKeys(prev => [...prev, newKeyDraft(nextKeyId)]);
+        setNextKeyId(id => id + 1);
+    };
+
+    const removeKeyDraft = (id: number) => {
+        setExtraKeys(prev => prev.filter(k => k.id !== id));
+    };
+
+    // Turns a drafted key into the SDK's key entry, throwing a readable message when a field is invalid
+    const parseKeyDraft = (draft: KeyDraft, label: string): { key: PublicKey; entry: Omit<KeyEntry<unknown>, 'key'> } => {
+        let key: PublicKey;
+        try {
+            key = new PublicKey(draft.key.trim());
+        } catch {
+            throw new Error(`${label}: invalid key address`);
+        }
+        if (draft.auth) {
+            return {
+                key,
+                entry: { scope: program.programId, expireTime: null, permissions: RawPermissions.fromProfilePermissions(ProfilePermissions.all()) },
+            };
+        }
+
+        let scope: PublicKey;
+        try {
+            scope = draft.scopeMode === 'profile' ? program.programId : new PublicKey(draft.customScope.trim());
+        } catch {
+            throw new Error(`${label}: invalid scope program ID`);
+        }
+
+        let permissions: RawPermissions;
+        if (draft.scopeMode === 'profile') {
+            const flags = DELEGATE_PROFILE_FLAGS.filter(({ flag }) => draft.profileFlags[flag]).map(({ flag }) => flag);
+            permissions = RawPermissions.fromFlags(PROFILE_PERMISSION_FLAGS, flags);
+        } else {
+            try {
+                permissions = RawPermissions.fromHex(draft.rawPermissions);
+            } catch (e) {
+                throw new Error(`${label}: invalid permissions: ${e instanceof Error ? e.message : String(e)}`);
+            }
+        }
+        if (permissions.isEmpty()) {
+            throw new Error(`${label}: select at least one permission`);
+        }
+
+        let expireTime: BN | null = null;
+        if (!draft.neverExpires) {
+            const expiry = new Date(draft.expiry).getTime();
+            if (!draft.expiry || Number.isNaN(expiry)) {
+                throw new Error(`${label}: enter an expiry date or choose "Never"`);
+            }
+            if (expiry <= clusterNow()) {
+                throw new Error(`${label}: expiry must be in the future`);
+            }
+            expireTime = new BN(Math.floor(expiry / 1000));
+        }
+        return { key, entry: { scope, expireTime, permissions } };
+    };
+
+    const handleBuildPreview = async () => {
+        if (!wallet.publicKey) return;
+        setError(null);
+
+        const drafts: [KeyDraft, string][] = [
+            [{ ...newKeyDraft(-1), key: authKeyInput, auth: true }, 'Initial auth key'],
+            ...extraKeys.map((k, i): [KeyDraft, string] => [k, `Key ${i + 2}`]),
+        ];
+        let parsed: { key: PublicKey; entry: Omit<KeyEntry<unknown>, 'key'>; auth: boolean }[];
+        try {
+            parsed = drafts.map(([draft, label]) => ({ ...parseKeyDraft(draft, label), auth: draft.auth }));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+            return;
+        }
+
+        const authKeys = parsed.filter(p => p.auth).map(p => p.key);
+        if (new Set(authKeys.map(k => k.toBase58())).size !== authKeys.length) {
+            setError('The same wallet is listed as an auth key more than once');
+            return;
+        }
+        if (authKeys.some(k => k.equals(profileKeypair.publicKey))) {
+            setError('The profile account itself cannot be a key');
+            return;
+        }
+
+        const keyThreshold = Number(thresholdInput);
+        if (!Number.isInteger(keyThreshold) || keyThreshold < 1 || keyThreshold > authKeys.length) {
+            setError(`Key threshold must be between 1 and the number of auth keys (${authKeys.length})`);
+            return;
+        }
+
+        const name = nameInput || null;
+        if (name) {
+            const invalid = validateProfileName(name);
+            if (invalid) {
+                setError(invalid);
+                return;
+            }
+        }
+
+        setProcessing(true);
+        try {
+            const walletSigner = walletToAsyncSigner(wallet as any);
+            const profileSigner = keypairToAsyncSigner(profileKeypair);
+            const externalSigners = authKeys.filter(k => !k.equals(wallet.publicKey!));
+
+            // Auth keys come first on the profile; only the wallet's key can be passed as a signer here
+            const ordered = [...parsed.filter(p => p.auth), ...parsed.filter(p => !p.auth)];
+            const keys: KeyEntry<unknown>[] = ordered.map(({ key, entry }) => ({
+                ...entry,
+                key: key.equals(wallet.publicKey!) ? walletSigner : key,
+            }));
+            const instructions = await ixReturnsToIxs(
+                PlayerProfile.createProfile(program, profileSigner, keys, keyThreshold),
+                walletSigner,
+            );
+
+            // New auth keys must sign, including the ones that sign on another device
+            for (const meta of instructions[0].keys) {
+                if (externalSigners.some(k => k.equals(meta.pubkey))) meta.isSigner = true;
+            }
+
+            if (name) {
+                const nameKey = authKeys[0].equals(wallet.publicKey) ? walletSigner : createDummyAsyncSigner(authKeys[0]);
+                const { instructions: setNameIx } = PlayerProfile.setName(
+                    program,
+                    { playerProfileProgram: program, profileKey: profileKeypair.publicKey, key: nameKey, keyIndex: 0 },
+                    name,
+                );
+                instructions.push(...await ixReturnsToIxs(setNameIx, walletSigner));
+            }
+
+            if (getInstructionsSize([...computeBudgetPlaceholder(), ...instructions], wallet.publicKey) > MAX_TRANSACTION_SIZE) {
+                setError('Too many keys for a single transaction. Create the profile with fewer keys and add the rest with ADD KEY.');
+                return;
+            }
+
+            const tx = new Transaction().add(...instructions);
+            tx.feePayer = wallet.publicKey;
+            await applyPriorityFee(connection, tx);
+
+            const [profileRent, nameRent] = await Promise.all([
+                connection.getMinimumBalanceForRentExemption(profileAccountSize(keys.length)),
+                name ? connection.getMinimumBalanceForRentExemption(playerNameAccountSize(name)) : Promise.resolve(0),
+            ]);
+
+            setPreview({
+                transaction: tx,
+                profileAccount: profileKeypair.publicKey,
+                name,
+                keyCount: keys.length,
+                keyThreshold,
+                externalSigners,
+                profileRent,
+                nameRent,
+            });
+            setStep('preview');
+        } catch (e) {
+            console.error('Error building createProfile transaction:', e);
+            setError(decodeError(e, 'Failed to build transaction'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction || !preview) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            const tx = preview.transaction;
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            tx.recentBlockhash = blockhash;
+            tx.partialSign(profileKeypair);
+
+            const signed = await wallet.signTransaction(tx);
+            if (preview.externalSigners.length > 0) {
+                setPartiallySignedTx(signed.serialize({ requireAllSignatures: false }).toString('base64'));
+                setStep('cosign');
+                return;
+            }
+
+            const sig = await sendAndConfirm(connection, signed, {
+                lastValidBlockHeight,
+                onStatus: trackStatus('Create Profile', preview.profileAccount),
+            });
+            setSignature(sig);
+            setStep('complete');
+            onCreated();
+        } catch (e) {
+            console.error('Error creating profile:', e);
+            setError(decodeError(e, 'Failed to create profile'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const renderScopeToggle = (draft: KeyDraft) => (
+        <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 w-fit">
+            {(['profile', 'custom'] as ScopeMode[]).map(mode => (
+                <button
+                    key={mode}
+                    onClick={() => updateKey(draft.id, { scopeMode: mode })}
+                    className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                        draft.scopeMode === mode
+                            ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                            : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                    }`}
+                >
+                    {mode === 'profile' ? 'Profile Program' : 'Custom Program'}
+                </button>
+            ))}
+        </div>
+    );
+
+    const renderKeyDraft = (draft: KeyDraft, index: number) => (
+        <div key={draft.id} className="p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)] space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <span className="font-mono text-xs text-[var(--sa-accent)] uppercase tracking-wider font-bold">Key {index + 2}</span>
+                <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text)] cursor-pointer">
+                        <input type="checkbox" checked={draft.auth} onChange={(e) => updateKey(draft.id, { auth: e.target.checked })} />
+                        Auth key
+                    </label>
+                    <button
+                        onClick={() => removeKeyDraft(draft.id)}
+                        className="font-mono text-xs text-red-400 hover:text-red-300 uppercase tracking-wider"
+                    >
+                        REMOVE
+                    </button>
+                </div>
+            </div>
+            <input
+                type="text"
+                value={draft.key}
+                onChange={(e) => updateKey(draft.id, { key: e.target.value })}
+                className="sage-input py-2 text-xs"
+                placeholder="Solana address of the key..."
+            />
+            {draft.auth ? (
+                <p className="font-mono text-xs text-amber-400">
+                    Auth keys hold every permission, never expire and must co-sign the creation transaction.
+                </p>
+            ) : (
+                <>
+                    {renderScopeToggle(draft)}
+                    {draft.scopeMode === 'custom' && (
+                        <input
+                            type="text"
+                            value={draft.customScope}
+                            onChange={(e) => updateKey(draft.id, { customScope: e.target.value })}
+                            className="sage-input py-2 text-xs"
+                            placeholder="Program ID the key is scoped to..."
+                        />
+                    )}
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text)] cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={draft.neverExpires}
+                                onChange={(e) => updateKey(draft.id, { neverExpires: e.target.checked })}
+                            />
+                            Never expires
+                        </label>
+                        {!draft.neverExpires && (
+                            <input
+                                type="datetime-local"
+                                value={draft.expiry}
+                                onChange={(e) => updateKey(draft.id, { expiry: e.target.value })}
+                                className="sage-input py-2 text-xs flex-1"
+                            />
+                        )}
+                    </div>
+                    {draft.scopeMode === 'profile' ? (
+                        <div className="grid grid-cols-2 gap-1.5 p-3 bg-[var(--sa-black)] border border-[var(--sa-border)]">
+                            {DELEGATE_PROFILE_FLAGS.map(({ flag, label }) => (
+                                <label key={flag} className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text)] cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.profileFlags[flag]}
+                                        onChange={(e) => updateKey(draft.id, { profileFlags: { ...draft.profileFlags, [flag]: e.target.checked } })}
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    ) : (
+                        <input
+                            type="text"
+                            value={draft.rawPermissions}
+                            onChange={(e) => updateKey(draft.id, { rawPermissions: e.target.value })}
+                            className="sage-input py-2 text-xs"
+                            placeholder="64-bit permission bitmask, e.g. 0x1f"
+                        />
+                    )}
+                </>
+            )}
+        </div>
+    );
+
+    const renderForm = () => (
+        <>
+            <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                    <label className="font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold">Profile Account</label>
+                    <button
+                        onClick={() => setProfileKeypair(Keypair.generate())}
+                        className="font-mono text-xs text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase tracking-wider"
+                    >
+                        REGENERATE
+                    </button>
+                </div>
+                <p className="font-mono text-xs text-cyan-400 break-all">{profileKeypair.publicKey.toBase58()}</p>
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">
+                    Generated in this browser. It only signs the creation transaction and is not needed afterwards.
+                </p>
+            </div>
+
+            <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                    <label className="font-mono text-sm text-[var(--sa-accent)] uppercase tracking-wider font-bold">Initial Auth Key</label>
+                    {wallet.publicKey && authKeyInput.trim() !== wallet.publicKey.toBase58() && (
+                        <button
+                            onClick={() => setAuthKeyInput(wallet.publicKey!.toBase58())}
+                            className="font-mono text-xs text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase tracking-wider"
+                        >
+                            USE CONNECTED WALLET
+                        </button>
+                    )}
+                </div>
+                <input
+                    type="text"
+                    value={authKeyInput}
+                    onChange={(e) => { setAuthKeyInput(e.target.value); setError(null); }}
+                    className="sage-input"
+                    placeholder="Wallet that will control the profile..."
+                />
+            </div>
+
+            <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                    <label className="font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold">Additional Keys</label>
+                    <button
+                        onClick={addKeyDraft}
+                        className="font-mono text-xs text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider"
+                    >
+                        + ADD KEY
+                    </button>
+                </div>
+                {extraKeys.length === 0 ? (
+                    <p className="font-mono text-xs text-[var(--sa-text-dim)]">None. Keys can also be added after the profile exists.</p>
+                ) : (
+                    <div className="space-y-2">{extraKeys.map(renderKeyDraft)}</div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-6">
+                <div>
+                    <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Key Threshold</label>
+                    <input
+                        type="number"
+                        min={1}
+                        max={authKeyCount}
+                        value={thresholdInput}
+                        onChange={(e) => { setThresholdInput(e.target.value); setError(null); }}
+                        className="sage-input py-2 text-xs"
+                    />
+                    <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">Auth signatures required, of {authKeyCount}.</p>
+                </div>
+                <div>
+                    <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Name</label>
+                    <input
+                        type="text"
+                        value={nameInput}
+                        onChange={(e) => { setNameInput(e.target.value); setError(null); }}
+                        className="sage-input py-2 text-xs"
+                        placeholder="Optional"
+                    />
+                    {nameInput && validateProfileName(nameInput) && (
+                        <p className="font-mono text-xs text-amber-400 mt-1">{validateProfileName(nameInput)}</p>
+                    )}
+                </div>
+            </div>
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleBuildPreview}
+                    disabled={processing || !authKeyInput.trim() || !wallet.publicKey}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Building...' : 'Preview'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderPreview = () => {
+        if (!preview) return null;
+        const rows: [string, string][] = [
+            ['Profile', preview.profileAccount.toBase58()],
+            ['Keys', `${preview.keyCount}, threshold ${preview.keyThreshold}`],
+            ['Profile Rent', formatSol(preview.profileRent)],
+            ...(preview.name ? [['Name', preview.name], ['Name Rent', formatSol(preview.nameRent)]] as [string, string][] : []),
+            ['Paid By', wallet.publicKey?.toBase58() || ''],
+        ];
+
+        return (
+            <>
+                <div className="bg-amber-500/10 border border-amber-500/30 p-4 mb-4">
+                    <p className="font-mono text-sm text-amber-300 tracking-wide leading-relaxed">
+                        <strong>→ REVIEW:</strong> This transaction calls <strong>createProfile</strong>
+                        {preview.name && <> and <strong>setName</strong></>} and creates the profile below.
+                    </p>
+                </div>
+                <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                    {rows.map(([label, value]) => (
+                        <div key={label} className="flex gap-3 px-3 py-2">
+                            <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">{label}</span>
+                            <span className="font-mono text-xs text-[var(--sa-text)] break-all">{value}</span>
+                        </div>
+                    ))}
+                </div>
+                {preview.externalSigners.length > 0 && (
+                    <div className="bg-[var(--sa-dark)] border border-[var(--sa-border)] p-3 mb-4">
+                        <p className="font-mono text-xs text-[var(--sa-text-dim)] leading-relaxed">
+                            {preview.externalSigners.length === 1 ? 'One auth key is' : `${preview.externalSigners.length} auth keys are`} not
+                            the connected wallet. After you sign, export the transaction and co-sign it with{' '}
+                            {preview.externalSigners.length === 1 ? 'that wallet' : 'each of them'} through IMPORT TX before the blockhash expires.
+                        </p>
+                    </div>
+                )}
+                <TransactionPreview transactions={previewTransactions} program={program} />
+                {error && <ErrorNotice error={error} />}
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => { setStep('form'); setError(null); }}
+                        disabled={processing}
+                        className="sage-button-secondary px-5 py-2.5 disabled:opacity-50"
+                    >
+                        Back
+                    </button>
+                    <button
+                        onClick={handleSend}
+                        disabled={processing}
+                        className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {processing ? 'Sending...' : preview.externalSigners.length > 0 ? 'Sign' : 'Sign & Send'}
+                    </button>
+                </div>
+            </>
+        );
+    };
+
+    const renderCosign = () => (
+        <>
+            <div className="bg-amber-500/10 border border-amber-500/30 p-4 mb-4">
+                <p className="font-mono text-sm text-amber-300 tracking-wide leading-relaxed">
+                    Signed by the profile account and your wallet. These auth keys still need to co-sign:
+                </p>
+                {preview?.externalSigners.map(k => (
+                    <p key={k.toBase58()} className="font-mono text-xs text-amber-300/80 mt-1 break-all">{k.toBase58()}</p>
+                ))}
+            </div>
+            {partiallySignedTx && preview && (
+                <TransactionExport
+                    serializedTx={partiallySignedTx}
+                    operation="createProfile"
+                    profileKey={preview.profileAccount.toBase58()}
+                />
+            )}
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide leading-relaxed">
+                    Profile <strong>{preview?.profileAccount.toBase58()}</strong> was created.
+                </p>
+                {signature && (
+                    <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    const stepNumber = { form: '0001.', preview: '0002.', cosign: '0003.', complete: '0003.' }[step];
+    const stepTitle = { form: 'CREATE PROFILE', preview: 'REVIEW PROFILE', cosign: 'CO-SIGN PROFILE', complete: 'PROFILE CREATED' }[step];
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">{stepNumber}</span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">{stepTitle}</h3>
+                </div>
+                {step === 'form' && renderForm()}
+                {step === 'preview' && renderPreview()}
+                {step === 'cosign' && renderCosign()}
+                {step === 'complete' && renderComplete()}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,386 @@
+import { useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { BN } from '@staratlas/anchor';
+import { FixedSizeArray, walletToAsyncSigner } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { useClusterStatus } from './ClusterStatus';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { KeyEntryUpdate, buildKeyEditInstructions } from '../utils/editKey';
+import { ErrorState, decodeError } from '../utils/errors';
+import {
+    PROFILE_PERMISSION_FLAGS,
+    ProfilePermissionFlag,
+    RawPermissions,
+    describePermissions,
+    getPermissionScope,
+} from '../utils/permissions';
+import { applyPriorityFee } from '../utils/priorityFees';
+import { sendAndConfirm } from '../utils/sendTransaction';
+
+type EditKeyStep = 'form' | 'preview' | 'complete';
+
+type ScopeMode = 'profile' | 'custom';
+
+interface EditKeyModalProps {
+    profile: PlayerProfile;
+    program: PlayerProfileIDLProgram;
+    keyIndex: number;
+    onClose: () => void;
+    onKeyUpdated: () => void;
+}
+
+// Flags that can be granted through addKeys (auth keys are managed by adjustAuth)
+const ADDABLE_PROFILE_FLAGS = PROFILE_PERMISSION_FLAGS.filter(({ flag }) => flag !== 'auth');
+
+const ALL_PROFILE_FLAGS = RawPermissions.fromFlags(PROFILE_PERMISSION_FLAGS, PROFILE_PERMISSION_FLAGS.map(({ flag }) => flag));
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const EditKeyModal = ({ profile, program, keyIndex, onClose, onKeyUpdated }: EditKeyModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const { clusterNow } = useClusterStatus();
+    const entry = profile.profileKeys[keyIndex];
+    const original = RawPermissions.fromPermissions(entry.permissions);
+    const originalExpiry = entry.expireTime.ltn(0) ? null : entry.expireTime.toNumber();
+    const isProfileScope = entry.scope.equals(program.programId);
+
+    const [step, setStep] = useState<EditKeyStep>('form');
+    const [scopeMode, setScopeMode] = useState<ScopeMode>(isProfileScope ? 'profile' : 'custom');
+    const [customScope, setCustomScope] = useState(isProfileScope ? '' : entry.scope.toBase58());
+    const [neverExpires, setNeverExpires] = useState(originalExpiry === null);
+    const [expiryInput, setExpiryInput] = useState(originalExpiry === null ? '' : toLocalInput(new Date(originalExpiry * 1000)));
+    const [profileFlags, setProfileFlags] = useState(() => {
+        const set = isProfileScope ? original.flags(PROFILE_PERMISSION_FLAGS) : [];
+        return Object.fromEntries(PROFILE_PERMISSION_FLAGS.map(({ flag }) => [flag, set.includes(flag)])) as Record<ProfilePermissionFlag, boolean>;
+    });
+    const [rawPermissions, setRawPermissions] = useState(original.toHex());
+    const [update, setUpdate] = useState<KeyEntryUpdate | null>(null);
+    const [transaction, setTransaction] = useState<Transaction | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const previewTransactions = useMemo(() => transaction ? [transaction] : [], [transaction]);
+
+    const buildPermissions = (): RawPermissions => {
+        if (scopeMode === 'profile') {
+            const flags = ADDABLE_PROFILE_FLAGS.filter(({ flag }) => profileFlags[flag]).map(({ flag }) => flag);
+            const named = RawPermissions.fromFlags(PROFILE_PERMISSION_FLAGS, flags);
+            // Bits the profile program has no name for yet are kept as they are
+            return isProfileScope ? named.or(original.without(ALL_PROFILE_FLAGS)) : named;
+        }
+        return RawPermissions.fromHex(rawPermissions);
+    };
+
+    const handleBuildPreview = async () => {
+        if (!wallet.publicKey) return;
+        setError(null);
+
+        let scope: PublicKey;
+        let permissions: RawPermissions;
+        try {
+            scope = scopeMode === 'profile' ? program.programId : new PublicKey(customScope.trim());
+        } catch {
+            setError('Invalid scope program ID');
+            return;
+        }
+        try {
+            permissions = buildPermissions();
+        } catch (e) {
+            setError(`Invalid permissions: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        if (permissions.isEmpty()) {
+            setError('Select at least one permission');
+            return;
+        }
+
+        let expireTime: BN | null = null;
+        if (!neverExpires) {
+            const expiry = new Date(expiryInput).getTime();
+            if (!expiryInput || Number.isNaN(expiry)) {
+                setError('Enter an expiry date or choose "Never"');
+                return;
+            }
+            if (expiry <= clusterNow()) {
+                setError('Expiry must be in the future');
+                return;
+            }
+            expireTime = new BN(Math.floor(expiry / 1000));
+        }
+
+        const newExpiry = expireTime === null ? null : expireTime.toNumber();
+        // datetime-local drops seconds, so an untouched expiry compares at minute precision
+        const sameExpiry = newExpiry === null || originalExpiry === null
+            ? newExpiry === originalExpiry
+            : Math.floor(newExpiry / 60) === Math.floor(originalExpiry / 60);
+        if (scope.equals(entry.scope) && permissions.eq(original) && sameExpiry) {
+            setError('Nothing changed');
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const next: KeyEntryUpdate = { scope, expireTime, permissions };
+            const instructions = await buildKeyEditInstructions(program, profile, walletToAsyncSigner(wallet as any), keyIndex, next);
+            const tx = new Transaction().add(...instructions);
+            tx.feePayer = wallet.publicKey;
+            await applyPriorityFee(connection, tx);
+            setUpdate(next);
+            setTransaction(tx);
+            setStep('preview');
+        } catch (e) {
+            console.error('Error building key edit transaction:', e);
+            setError(decodeError(e, 'Failed to build transaction'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction || !transaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            transaction.recentBlockhash = blockhash;
+
+            const signed = await wallet.signTransaction(transaction);
+            const sig = await sendAndConfirm(connection, signed, {
+                lastValidBlockHeight,
+                onStatus: trackStatus('Edit Key', profile.key),
+            });
+            setSignature(sig);
+            setStep('complete');
+            onKeyUpdated();
+        } catch (e) {
+            console.error('Error editing key:', e);
+            setError(decodeError(e, 'Failed to edit key'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const describeScope = (scope: PublicKey) => getPermissionScope(scope, program.programId)?.name ?? scope.toBase58();
+
+    const describeBits = (scope: PublicKey, permissions: FixedSizeArray<number, 8>) => {
+        const labels = describePermissions(permissions, getPermissionScope(scope, program.programId));
+        return labels.length > 0 ? labels.join(', ') : 'None';
+    };
+
+    const describeExpiry = (expiry: number | null) => expiry === null ? 'Never' : new Date(expiry * 1000).toLocaleString();
+
+    const renderDiff = () => {
+        if (!update) return null;
+        const rows = [
+            { label: 'Scope', before: describeScope(entry.scope), after: describeScope(update.scope) },
+            {
+                label: 'Permissions',
+                before: describeBits(entry.scope, entry.permissions),
+                after: describeBits(update.scope, update.permissions.getPermissions()),
+            },
+            {
+                label: 'Expiry',
+                before: describeExpiry(originalExpiry),
+                after: describeExpiry(update.expireTime === null ? null : update.expireTime.toNumber()),
+            },
+        ];
+        return (
+            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                {rows.map(({ label, before, after }) => (
+                    <div key={label} className="flex gap-3 px-3 py-2">
+                        <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">{label}</span>
+                        {before === after ? (
+                            <span className="font-mono text-xs text-[var(--sa-text)] break-all">{before}</span>
+                        ) : (
+                            <div className="font-mono text-xs break-all">
+                                <p className="text-red-400 line-through">{before}</p>
+                                <p className="text-emerald-400">{after}</p>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    const renderForm = () => (
+        <>
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Key</label>
+                <p className="font-mono text-xs text-[var(--sa-text)] break-all">
+                    <span className="text-[var(--sa-text-dim)]">#{keyIndex} </span>{entry.key.toBase58()}
+                </p>
+            </div>
+
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Scope</label>
+                <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 w-fit mb-2">
+                    {(['profile', 'custom'] as ScopeMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setScopeMode(mode)}
+                            className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                scopeMode === mode
+                                    ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                    : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                            }`}
+                        >
+                            {mode === 'profile' ? 'Profile Program' : 'Custom Program'}
+                        </button>
+                    ))}
+                </div>
+                {scopeMode === 'profile' ? (
+                    <p className="font-mono text-xs text-[var(--sa-text-dim)] break-all">{program.programId.toBase58()}</p>
+                ) : (
+                    <input
+                        type="text"
+                        value={customScope}
+                        onChange={(e) => setCustomScope(e.target.value)}
+                        className="sage-input py-2 text-xs"
+                        placeholder="Program ID the key is scoped to..."
+                    />
+                )}
+            </div>
+
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Expiry</label>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 font-mono text-sm text-[var(--sa-text)] cursor-pointer">
+                        <input type="checkbox" checked={neverExpires} onChange={(e) => setNeverExpires(e.target.checked)} />
+                        Never expires
+                    </label>
+                    {!neverExpires && (
+                        <input
+                            type="datetime-local"
+                            value={expiryInput}
+                            onChange={(e) => setExpiryInput(e.target.value)}
+                            className="sage-input py-2 text-xs flex-1"
+                        />
+                    )}
+                </div>
+            </div>
+
+            <div className="mb-6">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Permissions</label>
+                {scopeMode === 'profile' ? (
+                    <div className="grid grid-cols-2 gap-1.5 p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                        {ADDABLE_PROFILE_FLAGS.map(({ flag, label }) => (
+                            <label key={flag} className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text)] cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={profileFlags[flag]}
+                                    onChange={(e) => setProfileFlags(prev => ({ ...prev, [flag]: e.target.checked }))}
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        <input
+                            type="text"
+                            value={rawPermissions}
+                            onChange={(e) => setRawPermissions(e.target.value)}
+                            className="sage-input py-2 text-xs"
+                            placeholder="0x0"
+                        />
+                        <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">64-bit permission bitmask as defined by the scoped program.</p>
+                    </>
+                )}
+            </div>
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleBuildPreview}
+                    disabled={processing}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Building...' : 'Preview'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderPreview = () => (
+        <>
+            <div className="bg-amber-500/10 border border-amber-500/30 p-4 mb-4">
+                <p className="font-mono text-sm text-amber-300 tracking-wide leading-relaxed">
+                    <strong>→ REVIEW:</strong> This transaction calls <strong>removeKeys</strong> and <strong>addKeys</strong> to
+                    replace the key entry in one step. The key moves to the end of the key list.
+                </p>
+            </div>
+            {renderDiff()}
+            <TransactionPreview transactions={previewTransactions} program={program} />
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={() => { setStep('form'); setError(null); }}
+                    disabled={processing}
+                    className="sage-button-secondary px-5 py-2.5 disabled:opacity-50"
+                >
+                    Back
+                </button>
+                <button
+                    onClick={handleSend}
+                    disabled={processing}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Sending...' : 'Sign & Send'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide leading-relaxed">
+                    Key <strong>{entry.key.toBase58()}</strong> was updated.
+                </p>
+                {signature && (
+                    <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
+                        {step === 'form' ? '0001.' : step === 'preview' ? '0002.' : '0003.'}
+                    </span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'form' ? 'EDIT KEY' : step === 'preview' ? 'REVIEW EDIT' : 'KEY UPDATED'}
+                    </h3>
+                </div>
+                <div className="mb-4 p-2.5 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Profile: </span>
+                    <span className="font-mono text-xs text-cyan-400 break-all">{profile.key.toBase58()}</span>
+                </div>
+                {step === 'form' && renderForm()}
+                {step === 'preview' && renderPreview()}
+                {step === 'complete' && renderComplete()}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,373 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { Transaction } from '@solana/web3.js';
+import { readFromRPCOrError, walletToAsyncSigner } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { ErrorState, decodeError } from '../utils/errors';
+import { profilePermissionsOf } from '../utils/permissions';
+import { MIN_PRIORITY_FEE_MICRO_LAMPORTS, estimatePriorityFee, priorityFeeInstructions } from '../utils/priorityFees';
+import { buildKeyRemovalBatch, getAuthKeyIndex } from '../utils/removeKeys';
+import { sendAndTrack } from '../utils/sendTransaction';
+import { SimulationOutcome, simulateTransaction } from '../utils/simulation';
+
+type RevokeStep = 'confirm' | 'sending' | 'verified';
+
+type RevokeTxStatus = 'pending' | 'sending' | 'confirmed' | 'expired' | 'failed';
+
+interface RevokeGroup {
+    profile: PlayerProfile;
+    transactions: Transaction[];
+    keyCounts: number[];
+    statuses: RevokeTxStatus[];
+    error: ErrorState | null;
+}
+
+interface VerificationResult {
+    profileKey: string;
+    remaining: string[]; // Delegated keys still on the profile
+    error: ErrorState | null;
+}
+
+interface EmergencyRevokeModalProps {
+    profiles: PlayerProfile[]; // Profiles the wallet holds an auth key on
+    program: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onRevoked: () => void;
+}
+
+// Rounds of re-signing before giving up, the priority fee doubles on each
+const MAX_SIGNING_ROUNDS = 5;
+const CONFIRM_PHRASE = 'REVOKE';
+
+const delegatedKeyIndexes = (profile: PlayerProfile, program: PlayerProfileIDLProgram) =>
+    profile.profileKeys.flatMap((k, index) => (profilePermissionsOf(k, program.programId).auth ? [] : [index]));
+
+// Removes every non-auth key from every profile the wallet controls, then checks nothing is left
+export const EmergencyRevokeModal = ({ profiles, program, onClose, onRevoked }: EmergencyRevokeModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [step, setStep] = useState<RevokeStep>('confirm');
+    const [confirmInput, setConfirmInput] = useState('');
+    const [groups, setGroups] = useState<RevokeGroup[]>([]);
+    const [round, setRound] = useState(0);
+    const [priorityFee, setPriorityFee] = useState<number | null>(null);
+    const [verification, setVerification] = useState<VerificationResult[] | null>(null);
+    const [error, setError] = useState<ErrorState | null>(null);
+    // Simulation of each profile's first transaction, the later ones depend on it landing
+    const [simulations, setSimulations] = useState<SimulationOutcome[] | null>(null);
+    const [building, setBuilding] = useState(true);
+
+    const targets = useMemo(() => profiles
+        .map(profile => ({ profile, keyIndexes: delegatedKeyIndexes(profile, program) }))
+        .filter(t => t.keyIndexes.length > 0), [profiles, program]);
+    const totalKeys = targets.reduce((sum, t) => sum + t.keyIndexes.length, 0);
+    const previewTransactions = useMemo(() => groups.flatMap(g => g.transactions), [groups]);
+    const failedSimulations = simulations?.filter(sim => !sim.success).length ?? 0;
+
+    // Built up front so the confirm step can show and simulate exactly what will be signed
+    useEffect(() => {
+        if (!wallet.publicKey || targets.length === 0) {
+            setBuilding(false);
+            return;
+        }
+        const walletKey = wallet.publicKey;
+        const asyncSigner = walletToAsyncSigner(wallet as any);
+        let cancelled = false;
+
+        const build = async () => {
+            const fee = Math.max(
+                MIN_PRIORITY_FEE_MICRO_LAMPORTS,
+                await estimatePriorityFee(connection, targets.map(t => t.profile.key)),
+            );
+            const built = await Promise.all(targets.map(async ({ profile, keyIndexes }): Promise<RevokeGroup> => {
+                // Signing with the auth key, a removeKeys key listed before it is one of the keys being removed
+                const authIndex = getAuthKeyIndex(profile, program.programId, walletKey);
+                const batch = await buildKeyRemovalBatch(program, profile, asyncSigner, keyIndexes, priorityFeeInstructions(fee), authIndex);
+                return { profile, ...batch, statuses: batch.transactions.map(() => 'pending'), error: null };
+            }));
+            const outcomes = await Promise.all(built.map(g => simulateTransaction(connection, g.transactions[0])));
+            if (cancelled) return;
+            setPriorityFee(fee);
+            setGroups(built);
+            setSimulations(outcomes);
+        };
+
+        build()
+            .catch(e => {
+                console.error('Error preparing emergency revoke:', e);
+                if (!cancelled) setError(decodeError(e, 'Failed to prepare the revoke'));
+            })
+            .finally(() => {
+                if (!cancelled) setBuilding(false);
+            });
+        return () => { cancelled = true; };
+        // Built once, for the profiles loaded when the modal was opened
+    }, []);
+
+    const setStatus = (groupIndex: number, txIndex: number, status: RevokeTxStatus, groupError?: ErrorState) => {
+        setGroups(prev => prev.map((g, i) => i !== groupIndex ? g : {
+            ...g,
+            statuses: g.statuses.map((st, j) => (j === txIndex ? status : st)),
+            error: groupError ?? g.error,
+        }));
+    };
+
+    const verify = async () => {
+        const results = await Promise.all(profiles.map(async (profile): Promise<VerificationResult> => {
+            try {
+                const fresh = await readFromRPCOrError(connection, program, profile.key, PlayerProfile, 'confirmed');
+                return {
+                    profileKey: profile.key.toBase58(),
+                    remaining: delegatedKeyIndexes(fresh, program).map(i => fresh.profileKeys[i].key.toBase58()),
+                    error: null,
+                };
+            } catch (e) {
+                return { profileKey: profile.key.toBase58(), remaining: [], error: decodeError(e, 'Failed to reload profile') };
+            }
+        }));
+        setVerification(results);
+    };
+
+    const handleRevoke = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction || priorityFee === null) return;
+        setError(null);
+        setStep('sending');
+
+        try {
+            let fee = priorityFee;
+            const built = groups;
+
+            // Live copies of the statuses, the state updates above only drive the UI
+            const statuses = built.map(g => g.statuses.slice());
+            const failed = new Set<number>();
+            const transactions = built.map(g => g.transactions.slice());
+
+            for (let r = 1; r <= MAX_SIGNING_ROUNDS; r++) {
+                const pending = transactions.flatMap((txs, g) =>
+                    failed.has(g) ? [] : txs.flatMap((tx, t) => (statuses[g][t] === 'confirmed' ? [] : [{ g, t, tx }]))
+                );
+                if (pending.length === 0) break;
+                setRound(r);
+
+                if (r > 1) {
+                    // Unconfirmed transactions are signed again with a fresh blockhash and a higher fee
+                    fee *= 2;
+                    setPriorityFee(fee);
+                    const [priceIx] = priorityFeeInstructions(fee);
+                    for (const p of pending) {
+                        const next = new Transaction().add(priceIx, ...p.tx.instructions.slice(1));
+                        next.feePayer = p.tx.feePayer;
+                        transactions[p.g][p.t] = next;
+                        p.tx = next;
+                    }
+                }
+
+                const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+                pending.forEach(({ tx }) => { tx.recentBlockhash = blockhash; });
+                const signed = wallet.signAllTransactions
+                    ? await wallet.signAllTransactions(pending.map(p => p.tx))
+                    : await pending.reduce<Promise<Transaction[]>>(
+                        async (acc, p) => [...(await acc), await wallet.signTransaction!(p.tx)],
+                        Promise.resolve([])
+                    );
+
+                // Profiles go out in parallel, each profile's transactions in order
+                await Promise.all(built.map(async (_, g) => {
+                    for (const [i, p] of pending.entries()) {
+                        if (p.g !== g) continue;
+                        setStatus(g, p.t, 'sending');
+                        try {
+                            const { status } = await sendAndTrack(connection, signed[i], {
+                                lastValidBlockHeight,
+                                onStatus: trackStatus('Emergency Revoke', built[g].profile.key),
+                            });
+                            const outcome = status === 'expired' ? 'expired' : 'confirmed';
+                            statuses[g][p.t] = outcome;
+                            setStatus(g, p.t, outcome);
+                            // Later transactions rely on the indexes this one leaves behind
+                            if (outcome === 'expired') return;
+                        } catch (e) {
+                            console.error('Error revoking keys:', e);
+                            statuses[g][p.t] = 'failed';
+                            failed.add(g);
+                            setStatus(g, p.t, 'failed', decodeError(e, 'Failed to remove keys'));
+                            return;
+                        }
+                    }
+                }));
+
+            }
+
+            await verify();
+            setStep('verified');
+            onRevoked();
+        } catch (e) {
+            console.error('Error during emergency revoke:', e);
+            setError(decodeError(e, 'Emergency revoke stopped'));
+            await verify().catch(() => undefined);
+            setStep('verified');
+            onRevoked();
+        }
+    };
+
+    const statusColor = (status: RevokeTxStatus) =>
+        status === 'confirmed' ? 'text-emerald-400' : status === 'failed' ? 'text-red-400' : status === 'pending' ? 'text-[var(--sa-text-dim)]' : 'text-amber-400';
+
+    const renderConfirm = () => (
+        <>
+            <div className="bg-red-500/15 border-2 border-red-500 p-4 mb-4">
+                <p className="font-mono text-sm text-red-400 font-bold uppercase tracking-wider mb-1">⚠ Revoke every delegated key</p>
+                <p className="font-mono text-xs text-red-300 leading-relaxed">
+                    This removes all {totalKeys} non-auth {totalKeys === 1 ? 'key' : 'keys'} from {targets.length}{' '}
+                    {targets.length === 1 ? 'profile' : 'profiles'}. Bots and apps using them stop working immediately.
+                    Auth keys are kept. Transactions carry a priority fee and are re-signed until they land.
+                </p>
+            </div>
+
+            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                {targets.map(({ profile, keyIndexes }) => (
+                    <div key={profile.key.toBase58()} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <span className="font-mono text-xs text-cyan-400 break-all">{profile.key.toBase58()}</span>
+                        <span className="font-mono text-xs text-red-400 whitespace-nowrap">{keyIndexes.length} delegated</span>
+                    </div>
+                ))}
+                {targets.length === 0 && (
+                    <p className="font-mono text-xs text-[var(--sa-text-dim)] px-3 py-2">No delegated keys on any profile you control.</p>
+                )}
+            </div>
+
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">
+                    Type {CONFIRM_PHRASE} to confirm
+                </label>
+                <input
+                    type="text"
+                    value={confirmInput}
+                    onChange={(e) => setConfirmInput(e.target.value)}
+                    className="sage-input"
+                    placeholder={CONFIRM_PHRASE}
+                />
+            </div>
+
+            {building && targets.length > 0 && (
+                <p className="font-mono text-sm text-[var(--sa-text-dim)] mb-4">Building and simulating the revoke transactions...</p>
+            )}
+            {failedSimulations > 0 && (
+                <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4">
+                    <p className="font-mono text-xs text-red-400">
+                        Simulation failed for {failedSimulations} {failedSimulations === 1 ? 'profile' : 'profiles'}. Nothing can be signed until it passes; reload the profiles and try again.
+                    </p>
+                    {simulations?.map((sim, i) => !sim.success && (
+                        <p key={i} className="font-mono text-xs text-red-300/80 mt-1.5 break-all">
+                            {groups[i].profile.key.toBase58()}: {decodeError({ message: sim.error, logs: sim.logs }).message}
+                        </p>
+                    ))}
+                </div>
+            )}
+            {previewTransactions.length > 0 && <TransactionPreview transactions={previewTransactions} program={program} />}
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleRevoke}
+                    disabled={building || groups.length === 0 || failedSimulations > 0 || confirmInput.trim() !== CONFIRM_PHRASE}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Revoke {totalKeys} {totalKeys === 1 ? 'Key' : 'Keys'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderProgress = () => (
+        <>
+            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                <div className="flex gap-3 px-3 py-2">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Round</span>
+                    <span className="font-mono text-xs text-[var(--sa-text)]">{round || '-'} of at most {MAX_SIGNING_ROUNDS}</span>
+                </div>
+                <div className="flex gap-3 px-3 py-2">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Priority Fee</span>
+                    <span className="font-mono text-xs text-[var(--sa-text)]">
+                        {priorityFee === null ? 'Estimating...' : `${priorityFee.toLocaleString()} micro-lamports / CU`}
+                    </span>
+                </div>
+                {groups.map(group => (
+                    <div key={group.profile.key.toBase58()} className="px-3 py-2">
+                        <p className="font-mono text-xs text-cyan-400 break-all mb-1">{group.profile.key.toBase58()}</p>
+                        <div className="flex flex-wrap gap-3">
+                            {group.statuses.map((status, i) => (
+                                <span key={i} className={`font-mono text-xs uppercase tracking-wider ${statusColor(status)}`}>
+                                    Tx {i + 1} ({group.keyCounts[i]} keys): {status === 'expired' ? 'retrying' : status}
+                                </span>
+                            ))}
+                        </div>
+                        {group.error && <ErrorNotice error={group.error} className="mt-2" />}
+                    </div>
+                ))}
+            </div>
+            {error && <ErrorNotice error={error} />}
+        </>
+    );
+
+    const renderVerified = () => {
+        const remaining = verification?.reduce((sum, v) => sum + v.remaining.length, 0) ?? 0;
+        const unverified = verification?.filter(v => v.error).length ?? 0;
+        const clean = remaining === 0 && unverified === 0;
+        return (
+            <>
+                <div className={`${clean ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-red-500/15 border-red-500'} border p-4 mb-4`}>
+                    <p className={`font-mono text-sm tracking-wide leading-relaxed ${clean ? 'text-emerald-400' : 'text-red-400 font-bold'}`}>
+                        {clean
+                            ? `Verified on-chain: no delegated keys remain on ${profiles.length} ${profiles.length === 1 ? 'profile' : 'profiles'}.`
+                            : `${remaining} delegated ${remaining === 1 ? 'key remains' : 'keys remain'}${unverified > 0 ? ` and ${unverified} ${unverified === 1 ? 'profile' : 'profiles'} could not be checked` : ''}. Run the revoke again.`}
+                    </p>
+                </div>
+                {renderProgress()}
+                {verification && !clean && (
+                    <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                        {verification.filter(v => v.remaining.length > 0 || v.error).map(v => (
+                            <div key={v.profileKey} className="px-3 py-2">
+                                <p className="font-mono text-xs text-cyan-400 break-all">{v.profileKey}</p>
+                                {v.remaining.map(key => (
+                                    <p key={key} className="font-mono text-xs text-red-400 break-all">{key}</p>
+                                ))}
+                                {v.error && <ErrorNotice error={v.error} className="mt-2" />}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="flex justify-end">
+                    <button onClick={onClose} className="sage-button">
+                        Done
+                    </button>
+                </div>
+            </>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-2xl w-full border-red-500/50 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-red-400 font-bold tracking-wider">
+                        {step === 'confirm' ? '0001.' : step === 'sending' ? '0002.' : '0003.'}
+                    </span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'confirm' ? 'EMERGENCY REVOKE' : step === 'sending' ? 'REVOKING KEYS' : 'VERIFICATION'}
+                    </h3>
+                </div>
+                {step === 'confirm' && renderConfirm()}
+                {step === 'sending' && renderProgress()}
+                {step === 'verified' && renderVerified()}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import { useWalletModal } from '@solana/wallet-adapter-react-ui';
+import { ErrorState } from '../utils/errors';
+import { useRpcSettings } from './WalletContextProvider';
+
+interface ErrorNoticeProps {
+    error: ErrorState;
+    className?: string;
+}
+
+export const ErrorNotice = ({ error, className = 'mb-4' }: ErrorNoticeProps) => {
+    const { setSettingsOpen } = useRpcSettings();
+    const { setVisible: setWalletModalVisible } = useWalletModal();
+
+    if (typeof error === 'string') {
+        return (
+            <div className={`bg-red-500/10 border border-red-500/30 p-3 ${className}`}>
+                <p className="font-mono text-sm text-red-400">{error}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className={`bg-red-500/10 border border-red-500/30 p-3 ${className}`}>
+            <p className="font-mono text-sm text-red-400 break-words">{error.message}</p>
+            {error.fix && (
+                <p className="font-mono text-xs text-red-300/80 mt-1.5 leading-relaxed">→ {error.fix}</p>
+            )}
+            {error.action === 'rpc-settings' && (
+                <button
+                    onClick={() => setSettingsOpen(true)}
+                    className="mt-2 font-mono text-xs text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider"
+                >
+                    OPEN RPC SETTINGS
+                </button>
+            )}
+            {error.action === 'connect-wallet' && (
+                <button
+                    onClick={() => setWalletModalVisible(true)}
+                    className="mt-2 font-mono text-xs text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider"
+                >
+                    CONNECT WALLET
+                </button>
+            )}
+        </div>
+    );
+};
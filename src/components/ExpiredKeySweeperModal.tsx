@@ -0,0 +1,336 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { LAMPORTS_PER_SOL, Transaction } from '@solana/web3.js';
+import { walletToAsyncSigner } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram, PROFILE_KEY_MIN_DATA_SIZE } from '@staratlas/player-profile';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { fetchClusterClock } from '../utils/clock';
+import { ErrorState, decodeError } from '../utils/errors';
+import { describeKeyExpiry } from '../utils/keyExpiry';
+import { profilePermissionsOf } from '../utils/permissions';
+import { applyPriorityFee, computeBudgetPlaceholder } from '../utils/priorityFees';
+import { KeyRemovalBatch, buildKeyRemovalBatch, getRemovalKeyIndex } from '../utils/removeKeys';
+import { sendAndConfirm } from '../utils/sendTransaction';
+
+type SweepStep = 'scan' | 'review' | 'sending' | 'summary';
+
+type SweepTxStatus = 'pending' | 'sending' | 'confirmed' | 'failed' | 'skipped';
+
+interface SweepGroup {
+    profile: PlayerProfile;
+    keyIndexes: number[]; // Expired keys the wallet can remove
+    batch: KeyRemovalBatch;
+    statuses: SweepTxStatus[];
+    error: ErrorState | null;
+}
+
+interface ExpiredKeySweeperModalProps {
+    profiles: PlayerProfile[];
+    program: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onSwept: () => void;
+}
+
+const shortKey = (key: { toBase58: () => string }) => `${key.toBase58().slice(0, 4)}...${key.toBase58().slice(-4)}`;
+
+// Finds expired keys across the loaded profiles by cluster time and removes them, one batch per profile
+export const ExpiredKeySweeperModal = ({ profiles, program, onClose, onSwept }: ExpiredKeySweeperModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [step, setStep] = useState<SweepStep>('scan');
+    const [clusterTime, setClusterTime] = useState<number | null>(null);
+    const [groups, setGroups] = useState<SweepGroup[]>([]);
+    const [skippedAuthKeys, setSkippedAuthKeys] = useState(0);
+    // Profiles where the key the wallet would remove with has itself expired
+    const [skippedExpiredSigners, setSkippedExpiredSigners] = useState(0);
+    const [rentPerKey, setRentPerKey] = useState<number | null>(null);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const previewTransactions = useMemo(() => groups.flatMap(g => g.batch.transactions), [groups]);
+
+    useEffect(() => {
+        if (!wallet.publicKey) return;
+        const walletKey = wallet.publicKey;
+        const asyncSigner = walletToAsyncSigner(wallet as any);
+        let cancelled = false;
+
+        const scan = async () => {
+            const [clock, keyRent, emptyRent] = await Promise.all([
+                fetchClusterClock(connection),
+                connection.getMinimumBalanceForRentExemption(PROFILE_KEY_MIN_DATA_SIZE),
+                connection.getMinimumBalanceForRentExemption(0),
+            ]);
+
+            const found: SweepGroup[] = [];
+            let authSkipped = 0;
+            let signersExpired = 0;
+            const isExpired = (k: PlayerProfile['profileKeys'][number]) =>
+                !k.expireTime.ltn(0) && k.expireTime.toNumber() <= clock.unixTimestamp;
+            for (const profile of profiles) {
+                const signerIndex = getRemovalKeyIndex(profile, program.programId, walletKey);
+                if (signerIndex === -1) continue;
+                // The program rejects an expired signing key, so nothing on this profile can be removed
+                if (isExpired(profile.profileKeys[signerIndex])) {
+                    signersExpired++;
+                    continue;
+                }
+
+                const keyIndexes: number[] = [];
+                profile.profileKeys.forEach((k, index) => {
+                    if (!isExpired(k) || index === signerIndex) return;
+                    // Auth keys can only be removed through adjustAuth
+                    if (profilePermissionsOf(k, program.programId).auth) {
+                        authSkipped++;
+                        return;
+                    }
+                    keyIndexes.push(index);
+                });
+                if (keyIndexes.length === 0) continue;
+
+                const batch = await buildKeyRemovalBatch(program, profile, asyncSigner, keyIndexes, computeBudgetPlaceholder());
+                await Promise.all(batch.transactions.map(tx => applyPriorityFee(connection, tx)));
+                found.push({ profile, keyIndexes, batch, statuses: batch.transactions.map(() => 'pending'), error: null });
+            }
+
+            if (cancelled) return;
+            setClusterTime(clock.unixTimestamp);
+            setRentPerKey(keyRent - emptyRent);
+            setGroups(found);
+            setSkippedAuthKeys(authSkipped);
+            setSkippedExpiredSigners(signersExpired);
+            setStep('review');
+        };
+
+        scan().catch(e => {
+            console.error('Error scanning for expired keys:', e);
+            if (!cancelled) setError(decodeError(e, 'Failed to scan for expired keys'));
+        });
+        return () => { cancelled = true; };
+        // Scans once, for the profiles loaded when the sweeper was opened
+    }, []);
+
+    const updateStatus = (groupIndex: number, txIndex: number, status: SweepTxStatus, groupError?: ErrorState) => {
+        setGroups(prev => prev.map((g, i) => i !== groupIndex ? g : {
+            ...g,
+            statuses: g.statuses.map((st, j) => (j === txIndex ? status : st)),
+            error: groupError ?? g.error,
+        }));
+    };
+
+    const handleSweep = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction) return;
+        setError(null);
+
+        setStep('sending');
+
+        // Each profile is signed with a fresh blockhash just before it is sent, so earlier
+        // profiles taking long to confirm cannot expire the later ones
+        for (let g = 0; g < groups.length; g++) {
+            const transactions = groups[g].batch.transactions;
+            try {
+                const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+                transactions.forEach(tx => { tx.recentBlockhash = blockhash; });
+                const groupTxs = wallet.signAllTransactions
+                    ? await wallet.signAllTransactions(transactions)
+                    : await transactions.reduce<Promise<Transaction[]>>(
+                        async (acc, tx) => [...(await acc), await wallet.signTransaction!(tx)],
+                        Promise.resolve([])
+                    );
+
+                // Within a profile each transaction relies on the indexes left by the one before it
+                for (let t = 0; t < groupTxs.length; t++) {
+                    updateStatus(g, t, 'sending');
+                    try {
+                        await sendAndConfirm(connection, groupTxs[t], {
+                            lastValidBlockHeight,
+                            onStatus: trackStatus('Sweep Expired Keys', groups[g].profile.key),
+                        });
+                        updateStatus(g, t, 'confirmed');
+                    } catch (e) {
+                        console.error('Error sweeping expired keys:', e);
+                        updateStatus(g, t, 'failed', decodeError(e, 'Failed to remove expired keys'));
+                        for (let rest = t + 1; rest < groupTxs.length; rest++) updateStatus(g, rest, 'skipped');
+                        break;
+                    }
+                }
+            } catch (e) {
+                // Signing was rejected or failed, the remaining profiles are not attempted
+                console.error('Error signing sweep transactions:', e);
+                transactions.forEach((_, t) => updateStatus(g, t, 'skipped', decodeError(e, 'Failed to sign sweep transactions')));
+                for (let rest = g + 1; rest < groups.length; rest++) {
+                    groups[rest].batch.transactions.forEach((_, t) => updateStatus(rest, t, 'skipped'));
+                }
+                break;
+            }
+        }
+        setStep('summary');
+        onSwept();
+    };
+
+    const totalKeys = groups.reduce((sum, g) => sum + g.keyIndexes.length, 0);
+
+    const statusColor = (status: SweepTxStatus) =>
+        status === 'confirmed' ? 'text-emerald-400' : status === 'failed' ? 'text-red-400' : status === 'sending' ? 'text-amber-400' : 'text-[var(--sa-text-dim)]';
+
+    const renderGroups = (showStatus: boolean) => (
+        <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+            {groups.map(group => (
+                <div key={group.profile.key.toBase58()} className="px-3 py-2">
+                    <div className="flex items-center justify-between gap-3 mb-1">
+                        <span className="font-mono text-xs text-cyan-400 break-all">{group.profile.key.toBase58()}</span>
+                        <span className="font-mono text-xs text-[var(--sa-text-dim)] whitespace-nowrap">
+                            {group.keyIndexes.length} {group.keyIndexes.length === 1 ? 'key' : 'keys'} · {group.batch.transactions.length} tx
+                        </span>
+                    </div>
+                    {group.keyIndexes.map(index => {
+                        const k = group.profile.profileKeys[index];
+                        return (
+                            <p key={index} className="font-mono text-xs text-[var(--sa-text)]">
+                                <span className="text-[var(--sa-text-dim)]">#{index} </span>
+                                {shortKey(k.key)}
+                                <span className="text-red-400" title={new Date(k.expireTime.toNumber() * 1000).toLocaleString()}>
+                                    {' · '}{clusterTime !== null ? describeKeyExpiry(k.expireTime.toNumber(), clusterTime) : 'expired'}
+                                </span>
+                            </p>
+                        );
+                    })}
+                    {showStatus && (
+                        <div className="flex flex-wrap gap-3 mt-1">
+                            {group.statuses.map((status, i) => (
+                                <span key={i} className={`font-mono text-xs uppercase tracking-wider ${statusColor(status)}`}>
+                                    Tx {i + 1}: {status}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {group.error && <ErrorNotice error={group.error} className="mt-2" />}
+                </div>
+            ))}
+        </div>
+    );
+
+    const renderScan = () => (
+        <>
+            {error ? <ErrorNotice error={error} /> : (
+                <p className="font-mono text-sm text-[var(--sa-text-dim)] mb-4">Reading cluster time and scanning profiles...</p>
+            )}
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Close
+                </button>
+            </div>
+        </>
+    );
+
+    const renderReview = () => (
+        <>
+            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                <div className="flex gap-3 px-3 py-2">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Cluster Time</span>
+                    <span className="font-mono text-xs text-[var(--sa-text)]">
+                        {clusterTime !== null && new Date(clusterTime * 1000).toLocaleString()}
+                    </span>
+                </div>
+                <div className="flex gap-3 px-3 py-2">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Expired</span>
+                    <span className="font-mono text-xs text-[var(--sa-text)]">
+                        {totalKeys} removable {totalKeys === 1 ? 'key' : 'keys'} on {groups.length} {groups.length === 1 ? 'profile' : 'profiles'},{' '}
+                        {previewTransactions.length} {previewTransactions.length === 1 ? 'transaction' : 'transactions'}
+                    </span>
+                </div>
+            </div>
+
+            {skippedAuthKeys > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/30 p-3 mb-4">
+                    <p className="font-mono text-xs text-amber-300">
+                        {skippedAuthKeys} expired auth {skippedAuthKeys === 1 ? 'key is' : 'keys are'} not listed. Remove auth keys with AUTH KEYS.
+                    </p>
+                </div>
+            )}
+
+            {skippedExpiredSigners > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/30 p-3 mb-4">
+                    <p className="font-mono text-xs text-amber-300">
+                        {skippedExpiredSigners} {skippedExpiredSigners === 1 ? 'profile is' : 'profiles are'} not listed because the connected wallet's own key there has expired. Sign with an auth key to clean them up.
+                    </p>
+                </div>
+            )}
+
+            {groups.length === 0 ? (
+                <p className="font-mono text-sm text-[var(--sa-text-dim)] mb-4">No expired keys the connected wallet can remove.</p>
+            ) : (
+                <>
+                    {renderGroups(false)}
+                    <TransactionPreview transactions={previewTransactions} program={program} />
+                </>
+            )}
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleSweep}
+                    disabled={groups.length === 0}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Remove {totalKeys} {totalKeys === 1 ? 'Key' : 'Keys'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderSending = () => (
+        <>
+            <p className="font-mono text-sm text-[var(--sa-text-dim)] mb-4">Signing and sending transactions, one profile at a time...</p>
+            {renderGroups(true)}
+        </>
+    );
+
+    const renderSummary = () => {
+        const removedPerGroup = groups.map(g => g.batch.keyCounts.reduce((sum, n, i) => sum + (g.statuses[i] === 'confirmed' ? n : 0), 0));
+        const removed = removedPerGroup.reduce((a, b) => a + b, 0);
+        const sweptProfiles = removedPerGroup.filter(n => n > 0).length;
+        const failed = groups.filter(g => g.error).length;
+        return (
+            <>
+                <div className={`${failed > 0 ? 'bg-amber-500/10 border-amber-500/30' : 'bg-emerald-500/10 border-emerald-500/30'} border p-4 mb-4`}>
+                    <p className={`font-mono text-sm tracking-wide leading-relaxed ${failed > 0 ? 'text-amber-300' : 'text-emerald-400'}`}>
+                        Reclaimed <strong>{removed}</strong> of {totalKeys} key {totalKeys === 1 ? 'slot' : 'slots'} across{' '}
+                        {sweptProfiles} {sweptProfiles === 1 ? 'profile' : 'profiles'}
+                        {rentPerKey !== null && removed > 0 && <>, about {((rentPerKey * removed) / LAMPORTS_PER_SOL).toFixed(6)} SOL of rent returned</>}.
+                        {failed > 0 && ` ${failed} ${failed === 1 ? 'profile' : 'profiles'} failed, see below.`}
+                    </p>
+                </div>
+                {renderGroups(true)}
+                <div className="flex justify-end">
+                    <button onClick={onClose} className="sage-button">
+                        Done
+                    </button>
+                </div>
+            </>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-2xl w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
+                        {step === 'scan' || step === 'review' ? '0001.' : step === 'sending' ? '0002.' : '0003.'}
+                    </span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'summary' ? 'SWEEP COMPLETE' : 'EXPIRED KEYS'}
+                    </h3>
+                </div>
+                {step === 'scan' && renderScan()}
+                {step === 'review' && renderReview()}
+                {step === 'sending' && renderSending()}
+                {step === 'summary' && renderSummary()}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useConnection } from '@solana/wallet-adapter-react';
+import {
+    DEFAULT_PRIORITY_FEE_SETTINGS,
+    MAX_COMPUTE_UNIT_LIMIT,
+    MIN_PRIORITY_FEE_MICRO_LAMPORTS,
+    PriorityFeeMode,
+    estimatePriorityFee,
+    loadPriorityFeeSettings,
+    savePriorityFeeSettings,
+} from '../utils/priorityFees';
+
+export const FeeSettings = () => {
+    const { connection } = useConnection();
+    const [settings, setSettings] = useState(loadPriorityFeeSettings);
+    const [isOpen, setIsOpen] = useState(false);
+    const [mode, setMode] = useState<PriorityFeeMode>(settings.mode);
+    const [priceInput, setPriceInput] = useState(String(settings.microLamports));
+    const [limitInput, setLimitInput] = useState(String(settings.computeUnitLimit));
+    const [networkFee, setNetworkFee] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Reset the form and sample current network fees each time the dialog opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setMode(settings.mode);
+        setPriceInput(String(settings.microLamports));
+        setLimitInput(String(settings.computeUnitLimit));
+        setError(null);
+        setNetworkFee(null);
+        let cancelled = false;
+        estimatePriorityFee(connection, [])
+            .then(fee => { if (!cancelled) setNetworkFee(fee); })
+            .catch(e => console.error('Failed to fetch recent priority fees:', e));
+        return () => { cancelled = true; };
+    }, [isOpen, settings, connection]);
+
+    const price = Number(priceInput);
+    const limit = Number(limitInput);
+
+    const handleSave = () => {
+        if (mode === 'manual') {
+            if (!Number.isInteger(price) || price < 0) {
+                setError('Compute unit price must be a whole number of micro-lamports');
+                return;
+            }
+            if (!Number.isInteger(limit) || limit < 1 || limit > MAX_COMPUTE_UNIT_LIMIT) {
+                setError(`Compute unit limit must be between 1 and ${MAX_COMPUTE_UNIT_LIMIT.toLocaleString()}`);
+                return;
+            }
+        }
+        const next = mode === 'manual'
+            ? { mode, microLamports: price, computeUnitLimit: limit }
+            : { ...settings, mode };
+        savePriorityFeeSettings(next);
+        setSettings(next);
+        setIsOpen(false);
+    };
+
+    const handleReset = () => {
+        savePriorityFeeSettings(DEFAULT_PRIORITY_FEE_SETTINGS);
+        setSettings(DEFAULT_PRIORITY_FEE_SETTINGS);
+        setIsOpen(false);
+    };
+
+    const isManual = settings.mode === 'manual';
+
+    return (
+        <>
+            <button
+                onClick={() => setIsOpen(true)}
+                className={`flex items-center gap-2 px-4 py-2.5 border font-mono text-sm font-bold uppercase tracking-wider transition-all ${
+                    isManual
+                        ? 'bg-amber-500/10 text-amber-400 border-amber-500/30 hover:bg-amber-500/20 hover:border-amber-500/50'
+                        : 'bg-[var(--sa-dark)] text-[var(--sa-text-dim)] border-[var(--sa-border)] hover:text-[var(--sa-text)] hover:border-[var(--sa-accent)]'
+                }`}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                    <path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" />
+                </svg>
+                {isManual ? 'MANUAL FEE' : 'FEE'}
+            </button>
+
+            {isOpen && createPortal(
+                <div
+                    className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-start justify-center z-[80] p-4 pt-[160px]"
+                    onClick={(e) => {
+                        if (e.target === e.currentTarget) {
+                            setIsOpen(false);
+                        }
+                    }}
+                >
+                    <div className="sage-card p-6 w-full max-w-md border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-180px)] overflow-y-auto">
+                        <div className="flex items-center gap-2 mb-4">
+                            <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">CONFIG</span>
+                            <h3 className="font-mono text-base font-bold tracking-wider text-[var(--sa-text)]">PRIORITY FEES</h3>
+                        </div>
+                        <p className="font-mono text-sm text-[var(--sa-text-dim)] tracking-wide mb-4 leading-relaxed">
+                            Applies to every profile transaction. The estimated total fee is shown before signing.
+                        </p>
+
+                        <div className="space-y-4">
+                            <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 w-fit">
+                                {(['auto', 'manual'] as PriorityFeeMode[]).map(m => (
+                                    <button
+                                        key={m}
+                                        onClick={() => setMode(m)}
+                                        className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                            mode === m
+                                                ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                                : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                                        }`}
+                                    >
+                                        {m}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {mode === 'auto' ? (
+                                <p className="font-mono text-xs text-[var(--sa-text-dim)] leading-relaxed">
+                                    Prices each transaction at the 75th percentile of recent fees paid for the profile account,
+                                    or across the cluster when those are all zero, and never below {MIN_PRIORITY_FEE_MICRO_LAMPORTS.toLocaleString()} micro-lamports.
+                                    Compute units are limited to a simulation of the transaction plus 20%.
+                                </p>
+                            ) : (
+                                <>
+                                    <div>
+                                        <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Compute Unit Price (micro-lamports)</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={priceInput}
+                                            onChange={(e) => setPriceInput(e.target.value)}
+                                            className="sage-input"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Compute Unit Limit</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={MAX_COMPUTE_UNIT_LIMIT}
+                                            value={limitInput}
+                                            onChange={(e) => setLimitInput(e.target.value)}
+                                            className="sage-input"
+                                        />
+                                    </div>
+                                    {Number.isFinite(price * limit) && (
+                                        <p className="font-mono text-xs text-[var(--sa-text-dim)]">
+                                            Priority fee per transaction: {Math.ceil(price * limit / 1_000_000).toLocaleString()} lamports
+                                        </p>
+                                    )}
+                                </>
+                            )}
+
+                            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] p-3">
+                                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider mb-2">Network (75th percentile)</label>
+                                <span className="font-mono text-sm text-[var(--sa-text)]">
+                                    {networkFee === null ? 'Loading...' : `${networkFee.toLocaleString()} micro-lamports per CU`}
+                                </span>
+                            </div>
+
+                            {error && <p className="font-mono text-xs text-red-400">{error}</p>}
+
+                            <div className="flex justify-end gap-3 pt-4 border-t border-[var(--sa-border)]">
+                                <button
+                                    onClick={() => setIsOpen(false)}
+                                    className="sage-button-secondary px-4 py-2.5"
+                                >
+                                    CANCEL
+                                </button>
+                                <button
+                                    onClick={handleReset}
+                                    className="sage-button-secondary px-4 py-2.5"
+                                >
+                                    RESET DEFAULT
+                                </button>
+                                <button
+                                    onClick={handleSave}
+                                    className="sage-button px-4 py-2.5"
+                                >
+                                    SAVE
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>,
+                document.body
+            )}
+        </>
+    );
+};
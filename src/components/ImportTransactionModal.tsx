@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { Transaction } from '@solana/web3.js';
+import { PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { PartialTransactionExport, getSignerStatuses, parsePartialTransaction } from '../utils/transactions';
+import { getDurableNonceInfo } from '../utils/nonce';
+import { sendAndConfirm } from '../utils/sendTransaction';
+import { ErrorState, decodeError } from '../utils/errors';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionExport } from './TransactionExport';
+import { TransactionPreview } from './TransactionPreview';
+import { TransactionReviewModal, useTransactionReview } from './TransactionReviewModal';
+import { useTransactionTracker } from './TransactionTracker';
+
+type ImportStep = 'input' | 'inspect' | 'complete';
+
+interface ImportTransactionModalProps {
+    program?: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onComplete: () => void;
+}
+
+export const ImportTransactionModal = ({ program, onClose, onComplete }: ImportTransactionModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [step, setStep] = useState<ImportStep>('input');
+    const [input, setInput] = useState('');
+    const [transaction, setTransaction] = useState<Transaction | null>(null);
+    const [meta, setMeta] = useState<PartialTransactionExport | null>(null);
+    const [blockhashValid, setBlockhashValid] = useState<boolean | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const { pendingReview, reviewTransactions, closeReview } = useTransactionReview();
+
+    // Stable array so the preview only decodes again when the transaction changes
+    const previewTransactions = useMemo(() => transaction ? [transaction] : [], [transaction]);
+    const nonceInfo = useMemo(() => transaction ? getDurableNonceInfo(transaction) : null, [transaction]);
+
+    // Check whether the imported transaction can still land. Durable nonce
+    // transactions stay valid for as long as the stored nonce is unchanged.
+    useEffect(() => {
+        if (!transaction?.recentBlockhash) return;
+        setBlockhashValid(null);
+        const check = nonceInfo
+            ? connection.getNonce(nonceInfo.noncePubkey).then(n => n?.nonce === transaction.recentBlockhash)
+            : connection.isBlockhashValid(transaction.recentBlockhash).then(res => res.value);
+        check
+            .then(setBlockhashValid)
+            .catch(e => {
+                console.error('Failed to check blockhash validity:', e);
+                setBlockhashValid(null);
+            });
+    }, [connection, transaction, nonceInfo]);
+
+    const handleParse = (text: string) => {
+        setError(null);
+        try {
+            const parsed = parsePartialTransaction(text);
+            setTransaction(parsed.transaction);
+            setMeta(parsed.meta);
+            setStep('inspect');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        let text: string;
+        try {
+            text = await file.text();
+        } catch (e) {
+            setError(`Failed to read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        setInput(text);
+        handleParse(text);
+    };
+
+    const broadcast = async (tx: Transaction) => {
+        // The blockhash, or durable nonce, the transaction was signed with decides when it expires
+        const sig = await sendAndConfirm(connection, tx, {
+            onStatus: trackStatus(meta?.operation || 'Imported Transaction', meta?.profile),
+        });
+        console.log('Imported transaction confirmed:', sig);
+
+        setSignature(sig);
+        setStep('complete');
+        onComplete();
+    };
+
+    const handleCoSign = async () => {
+        if (!transaction || !wallet.signTransaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            // Built on another device, so it is simulated here before this wallet adds its signature
+            if (!(await reviewTransactions([transaction], { simulate: true }))) return;
+            const signed = await wallet.signTransaction(transaction);
+            setTransaction(signed);
+            if (getSignerStatuses(signed).every(s => s.signed)) {
+                await broadcast(signed);
+            }
+        } catch (e) {
+            console.error('Error co-signing imported transaction:', e);
+            setError(decodeError(e, 'Failed'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleBroadcast = async () => {
+        if (!transaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            await broadcast(transaction);
+        } catch (e) {
+            console.error('Error broadcasting imported transaction:', e);
+            setError(decodeError(e, 'Failed'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const renderInput = () => (
+        <>
+            <p className="font-mono text-sm text-[var(--sa-text-dim)] tracking-wide mb-4 leading-relaxed">
+                Paste the base64 transaction or the exported file contents, or load the exported file.
+            </p>
+            <textarea
+                value={input}
+                onChange={(e) => { setInput(e.target.value); setError(null); }}
+                className="sage-input text-xs h-32 resize-none break-all mb-3"
+                placeholder="Base64 transaction or exported JSON..."
+            />
+            <input
+                type="file"
+                accept=".json,.txt,application/json,text/plain"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block w-full font-mono text-xs text-[var(--sa-text-dim)] mb-4"
+            />
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => handleParse(input)}
+                    disabled={!input.trim()}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Inspect
+                </button>
+            </div>
+        </>
+    );
+
+    const renderInspect = () => {
+        if (!transaction) return null;
+        const signers = getSignerStatuses(transaction);
+        const walletSigner = signers.find(s => wallet.publicKey && s.publicKey.equals(wallet.publicKey));
+        const allSigned = signers.every(s => s.signed);
+
+        return (
+            <>
+                <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                    {meta && (
+                        <>
+                            <div className="flex gap-3 px-3 py-2">
+                                <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Operation</span>
+                                <span className="font-mono text-xs text-[var(--sa-text)]">{meta.operation}</span>
+                            </div>
+                            <div className="flex gap-3 px-3 py-2">
+                                <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Profile</span>
+                                <span className="font-mono text-xs text-cyan-400 break-all">{meta.profile}</span>
+                            </div>
+                            <div className="flex gap-3 px-3 py-2">
+                                <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Exported</span>
+                                <span className="font-mono text-xs text-[var(--sa-text)]">{new Date(meta.exportedAt).toLocaleString()}</span>
+                            </div>
+                        </>
+                    )}
+                    <div className="flex gap-3 px-3 py-2">
+                        <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">{nonceInfo ? 'Nonce' : 'Blockhash'}</span>
+                        <span className={`font-mono text-xs break-all ${
+                            blockhashValid === false ? 'text-red-400' : blockhashValid ? 'text-emerald-400' : 'text-[var(--sa-text)]'
+                        }`}>
+                            {transaction.recentBlockhash}
+                            {blockhashValid === false && (nonceInfo ? ' (advanced)' : ' (expired)')}
+                            {blockhashValid === true && ' (valid)'}
+                        </span>
+                    </div>
+                </div>
+
+                <TransactionPreview transactions={previewTransactions} program={program} />
+
+                {!allSigned && !walletSigner && (
+                    <div className="bg-amber-500/10 border border-amber-500/30 p-3 mb-4">
+                        <p className="font-mono text-xs text-amber-300">
+                            The connected wallet is not a signer of this transaction. Connect one of the pending wallets to co-sign.
+                        </p>
+                    </div>
+                )}
+                {!allSigned && walletSigner?.signed && (
+                    <>
+                        <div className="bg-[var(--sa-dark)] border border-[var(--sa-border)] p-3 mb-4">
+                            <p className="font-mono text-xs text-[var(--sa-text-dim)] leading-relaxed">
+                                Your signature is added. Pass this copy on to the next pending signer, or back to the device
+                                collecting signatures.
+                            </p>
+                        </div>
+                        <TransactionExport
+                            serializedTx={transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64')}
+                            operation={meta?.operation || 'transaction'}
+                            profileKey={meta?.profile || ''}
+                            durableNonce={!!nonceInfo}
+                        />
+                    </>
+                )}
+                {blockhashValid === false && (
+                    <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4">
+                        <p className="font-mono text-xs text-red-400">
+                            {nonceInfo
+                                ? 'The nonce account has been advanced or closed. This transaction can no longer be broadcast; restart the transfer on the first device.'
+                                : 'The blockhash has expired. This transaction can no longer be broadcast; restart the transfer on the first device.'}
+                        </p>
+                    </div>
+                )}
+                {error && <ErrorNotice error={error} />}
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => { setStep('input'); setTransaction(null); setError(null); }}
+                        disabled={processing}
+                        className="sage-button-secondary px-5 py-2.5 disabled:opacity-50"
+                    >
+                        Back
+                    </button>
+                    {allSigned ? (
+                        <button
+                            onClick={handleBroadcast}
+                            disabled={processing || blockhashValid === false}
+                            className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {processing ? 'Sending...' : 'Broadcast'}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleCoSign}
+                            disabled={processing || !walletSigner || walletSigner.signed || blockhashValid === false}
+                            className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {processing ? 'Signing...' : 'Co-sign'}
+                        </button>
+                    )}
+                </div>
+            </>
+        );
+    };
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide">Transaction confirmed.</p>
+                {signature && (
+                    <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">IMPORT</span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'input' ? 'LOAD TRANSACTION' : step === 'inspect' ? 'INSPECT & CO-SIGN' : 'COMPLETE'}
+                    </h3>
+                </div>
+                {step === 'input' && renderInput()}
+                {step === 'inspect' && renderInspect()}
+                {step === 'complete' && renderComplete()}
+            </div>
+            {pendingReview && (
+                <TransactionReviewModal
+                    transactions={pendingReview.transactions}
+                    program={program}
+                    simulate={pendingReview.simulate}
+                    onApprove={() => closeReview(true)}
+                    onCancel={() => closeReview(false)}
+                />
+            )}
+        </div>
+    );
+};
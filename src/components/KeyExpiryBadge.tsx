@@ -0,0 +1,28 @@
+import { KeyExpiryStatus, describeKeyExpiry } from '../utils/keyExpiry';
+
+interface KeyExpiryBadgeProps {
+    expireTime: number | null; // Unix seconds, null when the key never expires
+    status: KeyExpiryStatus;
+    clusterTime: number;
+}
+
+const STATUS_BADGES: Record<KeyExpiryStatus, { label: string; className: string }> = {
+    active: { label: 'ACTIVE', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' },
+    expiring: { label: 'EXPIRING', className: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+    expired: { label: 'EXPIRED', className: 'bg-red-500/10 text-red-400 border-red-500/30' },
+};
+
+// Status badge and time relative to the cluster clock, the exact expiry is on hover
+export const KeyExpiryBadge = ({ expireTime, status, clusterTime }: KeyExpiryBadgeProps) => {
+    if (expireTime === null) {
+        return <span className="font-mono text-sm text-[var(--sa-text-dim)]">Never</span>;
+    }
+
+    const badge = STATUS_BADGES[status];
+    return (
+        <div className="flex flex-col items-start gap-1" title={new Date(expireTime * 1000).toLocaleString()}>
+            <span className={`font-mono text-xs px-2 py-0.5 border ${badge.className}`}>{badge.label}</span>
+            <span className="font-mono text-xs text-[var(--sa-text-dim)] whitespace-nowrap">{describeKeyExpiry(expireTime, clusterTime)}</span>
+        </div>
+    );
+};
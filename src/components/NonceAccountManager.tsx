@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import {
+    buildCloseNonceAccountTx,
+    buildCreateNonceAccountTx,
+    forgetNonceAccount,
+    loadSavedNonceAccounts,
+    saveNonceAccount,
+} from '../utils/nonce';
+import { ErrorState, decodeError } from '../utils/errors';
+import { sendAndConfirm } from '../utils/sendTransaction';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionReviewModal, useTransactionReview } from './TransactionReviewModal';
+import { useTransactionTracker } from './TransactionTracker';
+
+interface NonceAccountInfo {
+    address: string;
+    lamports: number;
+    authority: string | null;
+    nonce: string | null;
+}
+
+interface NonceAccountManagerProps {
+    onClose: () => void;
+    onSelect?: (address: string) => void;
+}
+
+export const NonceAccountManager = ({ onClose, onSelect }: NonceAccountManagerProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [accounts, setAccounts] = useState<NonceAccountInfo[]>([]);
+    const [addressInput, setAddressInput] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const { pendingReview, reviewTransactions, closeReview } = useTransactionReview();
+
+    const refresh = useCallback(async () => {
+        setLoading(true);
+        try {
+            const infos = await Promise.all(loadSavedNonceAccounts().map(async (address): Promise<NonceAccountInfo> => {
+                const pubkey = new PublicKey(address);
+                const [lamports, nonceAccount] = await Promise.all([
+                    connection.getBalance(pubkey),
+                    connection.getNonce(pubkey).catch(() => null),
+                ]);
+                return {
+                    address,
+                    lamports,
+                    authority: nonceAccount?.authorizedPubkey.toBase58() || null,
+                    nonce: nonceAccount?.nonce || null,
+                };
+            }));
+            setAccounts(infos);
+        } catch (e) {
+            console.error('Error loading nonce accounts:', e);
+            setError(decodeError(e, 'Failed to load nonce accounts'));
+        } finally {
+            setLoading(false);
+        }
+    }, [connection]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleCreate = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            const { transaction, nonceKeypair } = await buildCreateNonceAccountTx(connection, wallet.publicKey, wallet.publicKey);
+            if (!(await reviewTransactions([transaction]))) return;
+
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            transaction.recentBlockhash = blockhash;
+
+            transaction.partialSign(nonceKeypair);
+            const signed = await wallet.signTransaction(transaction);
+            await sendAndConfirm(connection, signed, { lastValidBlockHeight, onStatus: trackStatus('Create Nonce Account') });
+
+            console.log('Created nonce account:', nonceKeypair.publicKey.toBase58());
+            saveNonceAccount(nonceKeypair.publicKey.toBase58());
+            await refresh();
+        } catch (e) {
+            console.error('Error creating nonce account:', e);
+            setError(decodeError(e, 'Failed to create nonce account'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleAddExisting = async () => {
+        setError(null);
+        let pubkey: PublicKey;
+        try {
+            pubkey = new PublicKey(addressInput.trim());
+        } catch {
+            setError('Invalid nonce account address');
+            return;
+        }
+        try {
+            const nonceAccount = await connection.getNonce(pubkey);
+            if (!nonceAccount) {
+                setError('Account is not an initialized nonce account');
+                return;
+            }
+        } catch {
+            setError('Account is not a nonce account');
+            return;
+        }
+        saveNonceAccount(pubkey.toBase58());
+        setAddressInput('');
+        await refresh();
+    };
+
+    const handleCloseAccount = async (account: NonceAccountInfo) => {
+        if (!wallet.publicKey || !wallet.signTransaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            const transaction = buildCloseNonceAccountTx(new PublicKey(account.address), wallet.publicKey, account.lamports);
+            if (!(await reviewTransactions([transaction]))) return;
+
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            transaction.recentBlockhash = blockhash;
+
+            const signed = await wallet.signTransaction(transaction);
+            await sendAndConfirm(connection, signed, { lastValidBlockHeight, onStatus: trackStatus('Close Nonce Account') });
+
+            forgetNonceAccount(account.address);
+            await refresh();
+        } catch (e) {
+            console.error('Error closing nonce account:', e);
+            setError(decodeError(e, 'Failed to close nonce account'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleForget = (address: string) => {
+        forgetNonceAccount(address);
+        setAccounts(prev => prev.filter(a => a.address !== address));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-4">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">CONFIG</span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">NONCE ACCOUNTS</h3>
+                </div>
+                <p className="font-mono text-sm text-[var(--sa-text-dim)] tracking-wide mb-4 leading-relaxed">
+                    A durable nonce replaces the recent blockhash, so a partially signed transaction does not expire.
+                    It stays valid until the nonce is advanced, so close unused nonce accounts to reclaim rent and invalidate old signatures.
+                </p>
+
+                <div className="space-y-2 mb-4">
+                    {loading && accounts.length === 0 && (
+                        <p className="font-mono text-sm text-[var(--sa-text-dim)]">Loading...</p>
+                    )}
+                    {!loading && accounts.length === 0 && (
+                        <p className="font-mono text-sm text-[var(--sa-text-dim)]">No saved nonce accounts.</p>
+                    )}
+                    {accounts.map(account => {
+                        const isAuthority = !!wallet.publicKey && account.authority === wallet.publicKey.toBase58();
+                        return (
+                            <div key={account.address} className="p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                                <p className="font-mono text-xs text-cyan-400 break-all">{account.address}</p>
+                                <div className="mt-1 font-mono text-xs text-[var(--sa-text-dim)] space-y-0.5">
+                                    <p>Balance: <span className="text-[var(--sa-text)]">{(account.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL</span></p>
+                                    <p className="break-all">Authority: <span className={isAuthority ? 'text-emerald-400' : 'text-[var(--sa-text)]'}>{account.authority || 'Not a nonce account'}</span></p>
+                                </div>
+                                <div className="flex justify-end gap-4 mt-2">
+                                    <button
+                                        onClick={() => handleForget(account.address)}
+                                        disabled={processing}
+                                        className="font-mono text-xs text-[var(--sa-text-dim)] hover:text-[var(--sa-text)] uppercase tracking-wider disabled:opacity-50"
+                                    >
+                                        FORGET
+                                    </button>
+                                    {isAuthority && account.lamports > 0 && (
+                                        <button
+                                            onClick={() => handleCloseAccount(account)}
+                                            disabled={processing}
+                                            className="font-mono text-xs text-red-400 hover:text-red-300 uppercase font-bold tracking-wider disabled:opacity-50"
+                                        >
+                                            CLOSE & RECLAIM
+                                        </button>
+                                    )}
+                                    {onSelect && account.nonce && (
+                                        <button
+                                            onClick={() => onSelect(account.address)}
+                                            disabled={processing}
+                                            className="font-mono text-xs text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50"
+                                        >
+                                            USE
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex gap-2 mb-4">
+                    <input
+                        type="text"
+                        value={addressInput}
+                        onChange={(e) => setAddressInput(e.target.value)}
+                        className="sage-input flex-1 py-2 text-xs"
+                        placeholder="Existing nonce account address..."
+                    />
+                    <button
+                        onClick={handleAddExisting}
+                        disabled={processing || !addressInput.trim()}
+                        className="sage-button-secondary px-3 py-2 text-xs disabled:opacity-50"
+                    >
+                        ADD
+                    </button>
+                </div>
+
+                {error && <ErrorNotice error={error} />}
+
+                <div className="flex justify-end gap-3 pt-4 border-t border-[var(--sa-border)]">
+                    <button onClick={onClose} className="sage-button-secondary px-4 py-2.5">
+                        CLOSE
+                    </button>
+                    <button
+                        onClick={handleCreate}
+                        disabled={processing || !wallet.publicKey}
+                        className="sage-button px-4 py-2.5 disabled:opacity-50"
+                    >
+                        {processing ? 'WORKING...' : 'CREATE NEW'}
+                    </button>
+                </div>
+            </div>
+
+            {pendingReview && (
+                <TransactionReviewModal
+                    transactions={pendingReview.transactions}
+                    onApprove={() => closeReview(true)}
+                    onCancel={() => closeReview(false)}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { NonceAccountManager } from './NonceAccountManager';
+
+interface NonceAccountPickerProps {
+    selected: string | null;
+    onChange: (address: string | null) => void;
+}
+
+// Switches a transaction between a recent blockhash and a durable nonce, picked in the nonce manager
+export const NonceAccountPicker = ({ selected, onChange }: NonceAccountPickerProps) => {
+    const [managerOpen, setManagerOpen] = useState(false);
+
+    return (
+        <div className="mb-4 p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)] flex items-center justify-between">
+            <div className="min-w-0">
+                <p className="font-mono text-xs text-[var(--sa-text)] uppercase tracking-wider font-bold mb-1">Durable Nonce</p>
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] break-all">
+                    {selected ?? 'Without one, every signature must be collected within about a minute'}
+                </p>
+            </div>
+            <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 shrink-0 ml-3">
+                <button
+                    onClick={() => onChange(null)}
+                    className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                        !selected
+                            ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                            : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                    }`}
+                >
+                    Off
+                </button>
+                <button
+                    onClick={() => setManagerOpen(true)}
+                    className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                        selected
+                            ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                            : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                    }`}
+                >
+                    {selected ? 'On' : 'Select'}
+                </button>
+            </div>
+            {managerOpen && (
+                <NonceAccountManager
+                    onClose={() => setManagerOpen(false)}
+                    onSelect={(address) => {
+                        onChange(address);
+                        setManagerOpen(false);
+                    }}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import { FixedSizeArray } from '@staratlas/data-source';
+import { PermissionScope, RawPermissions } from '../utils/permissions';
+
+interface PermissionBadgesProps {
+    permissions: FixedSizeArray<number, 8>;
+    scope: PermissionScope | null;
+}
+
+// Short, colored badges for the profile flags that matter most when managing keys
+const PROFILE_BADGES: Record<string, { label: string; className: string }> = {
+    auth: { label: 'AUTH', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+    addKeys: { label: 'ADD', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+    removeKeys: { label: 'RM', className: 'bg-amber-500/20 text-amber-400 border-amber-500/30' },
+};
+
+const NEUTRAL_BADGE = 'bg-[var(--sa-dark)] text-[var(--sa-text)] border-[var(--sa-border)]';
+
+// One badge per set permission bit, named by the key's scope
+export const PermissionBadges = ({ permissions, scope }: PermissionBadgesProps) => {
+    const raw = RawPermissions.fromPermissions(permissions);
+    const bits = raw.bits();
+    if (bits.length === 0) {
+        return <span className="font-mono text-sm text-[var(--sa-text-dim)]">None</span>;
+    }
+
+    // Bits of unknown scopes, and of known ones without published flag names such as SAGE,
+    // carry no names, so the raw bitmask is the most useful hover
+    const named = scope && scope.flags.length > 0 ? scope : null;
+    return (
+        <div className="flex flex-wrap gap-1" title={named ? undefined : `Raw bitmask: ${raw.toHex()}`}>
+            {bits.map(bit => {
+                const option = named?.flags[bit];
+                const badge = named?.name === 'Profile' && option ? PROFILE_BADGES[option.flag] : undefined;
+                return (
+                    <span
+                        key={bit}
+                        className={`font-mono text-sm px-2 py-1 border ${badge?.className ?? NEUTRAL_BADGE}`}
+                        title={named ? `Bit ${bit}` : undefined}
+                    >
+                        {badge?.label ?? (option ? option.label.toUpperCase() : `BIT ${bit}`)}
+                    </span>
+                );
+            })}
+        </div>
+    );
+};
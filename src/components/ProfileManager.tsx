@@ -1,16 +1,55 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { useWalletModal } from '@solana/wallet-adapter-react-ui';
-import { PublicKey, Transaction } from '@solana/web3.js';
-import { AnchorProvider, BN } from '@staratlas/anchor';
+import { PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { AnchorProvider } from '@staratlas/anchor';
 import {
     PlayerProfile,
     PlayerProfileProgram,
     ProfilePermissions,
-    PlayerName
+    PlayerName,
+    PROFILE_KEY_MIN_DATA_SIZE
 } from '@staratlas/player-profile';
 import { walletToAsyncSigner, readAllFromRPC, readFromRPCNullable } from '@staratlas/data-source';
-import { PLAYER_PROFILE_PROGRAM_ID, PROGRAM_ID_OPTIONS, CUSTOM_PROGRAM_ID_KEY } from '../utils/constants';
+import {
+    PROFILE_KEY_SCAN_SLOTS,
+    PROFILE_KEY_SCAN_BATCH_SIZE
+} from '../utils/constants';
+import {
+    KEY_EXPIRY_STATUS_ORDER,
+    KeyExpiryStatus,
+    classifyKeyExpiry,
+    getKeyExpireTime,
+    loadExpiringSoonHours,
+    saveExpiringSoonHours,
+} from '../utils/keyExpiry';
+import { NETWORK_PROFILES } from '../utils/networks';
+import { authKeyInput, getAuthKeys } from '../utils/profileKeys';
+import { PROFILE_PERMISSION_FLAGS, RawPermissions, getPermissionScope, profilePermissionsOf } from '../utils/permissions';
+import { applyPriorityFee, computeBudgetPlaceholder } from '../utils/priorityFees';
+import { buildKeyRemovalBatch, getRemovalKeyIndex } from '../utils/removeKeys';
+import { sendAndConfirm } from '../utils/sendTransaction';
+import { ErrorState, decodeError, formatError } from '../utils/errors';
+import { AddKeyModal } from './AddKeyModal';
+import { AuthKeyEditorModal } from './AuthKeyEditorModal';
+import { useClusterStatus } from './ClusterStatus';
+import { CoSignerPicker } from './CoSignerPicker';
+import { CreateProfileModal } from './CreateProfileModal';
+import { SetNameModal } from './SetNameModal';
+import { EditKeyModal } from './EditKeyModal';
+import { EmergencyRevokeModal } from './EmergencyRevokeModal';
+import { ExpiredKeySweeperModal } from './ExpiredKeySweeperModal';
+import { ImportTransactionModal } from './ImportTransactionModal';
+import { KeyExpiryBadge } from './KeyExpiryBadge';
+import { NonceAccountManager } from './NonceAccountManager';
+import { PermissionBadges } from './PermissionBadges';
+import { SignatureCollectionModal, SignatureSession } from './SignatureCollectionModal';
+import { ThresholdEditorModal } from './ThresholdEditorModal';
+import { TransactionExport } from './TransactionExport';
+import { TransactionReviewModal, useTransactionReview } from './TransactionReviewModal';
+import { useTransactionTracker } from './TransactionTracker';
+import { useRpcSettings } from './WalletContextProvider';
+import { ErrorNotice } from './ErrorNotice';
 
 type TransferStep = 'idle' | 'enter_destination' | 'sign_current' | 'connect_destination' | 'sign_destination' | 'complete' | 'expired';
 
@@ -24,9 +63,11 @@ interface TransferState {
     profileKey: string;
     profileCreatedAt: number;
     profileKeyThreshold: number;
-    signedAt: number | null; // Timestamp when first signature was obtained
-    error: string | null;
+    lastValidBlockHeight: number | null; // Expiry of the signed blockhash, null with a durable nonce
+    error: ErrorState | null;
     feePayer: FeePayer; // Who pays the transaction fee
+    nonceAccount: string | null; // Durable nonce account used instead of a recent blockhash
+    coSigners: string[]; // Other auth keys that sign when the profile's key threshold is above 1
 }
 
 const initialTransferState: TransferState = {
@@ -37,34 +78,46 @@ const initialTransferState: TransferState = {
     profileKey: '',
     profileCreatedAt: 0,
     profileKeyThreshold: 1,
-    signedAt: null,
+    lastValidBlockHeight: null,
     error: null,
     feePayer: 'destination', // Default to destination wallet paying fees
+    nonceAccount: null,
+    coSigners: [],
 };
 
-// Blockhash validity window (90 seconds to be safe, actual is ~60-150 seconds)
-const BLOCKHASH_VALIDITY_SECONDS = 42;
+type BatchTxStatus = 'pending' | 'sending' | 'confirmed' | 'failed';
+
+interface BatchRemovalState {
+    profileKey: string;
+    statuses: BatchTxStatus[];
+    keyCounts: number[]; // Number of keys removed by each transaction
+    error: ErrorState | null;
+}
+
+// Approximate block time, used to turn the blocks left before expiry into seconds
+const BLOCK_TIME_SECONDS = 0.4;
+// How often the block height is fetched, the countdown is interpolated in between
+const BLOCK_HEIGHT_POLL_MS = 5000;
 
 export const ProfileManager = () => {
     const { connection } = useConnection();
     const wallet = useWallet();
     const { setVisible: setWalletModalVisible } = useWalletModal();
+    const { trackStatus, notify } = useTransactionTracker();
+    const { clusterNow, status: clusterStatus } = useClusterStatus();
+    // The network picks the RPC endpoints and the program together, so it lives with the RPC settings
+    const { network, setNetwork, programId, customProgramId, setCustomProgramId, activeEndpoint } = useRpcSettings();
     const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+    // Profiles where the wallet holds a key but is not an auth key
+    const [delegatedProfiles, setDelegatedProfiles] = useState<PlayerProfile[]>([]);
     const [profileNames, setProfileNames] = useState<Map<string, string | null>>(new Map());
     const [loading, setLoading] = useState(false);
     const [processing, setProcessing] = useState(false);
     const [selectedProfile, setSelectedProfile] = useState<PlayerProfile | null>(null);
     const [modalOpen, setModalOpen] = useState(false);
-    const [programId, setProgramId] = useState<string>(PLAYER_PROFILE_PROGRAM_ID.toBase58());
-    const [selectedNetwork, setSelectedNetwork] = useState<string>('mainnet');
-    const [customProgramId, setCustomProgramId] = useState<string>(() => {
-        // Load persisted custom program ID from localStorage
-        if (typeof window !== 'undefined') {
-            return localStorage.getItem(CUSTOM_PROGRAM_ID_KEY) || '';
-        }
-        return '';
-    });
-    const [debugInfo, setDebugInfo] = useState<string>('');
+    const [fetchError, setFetchError] = useState<ErrorState | null>(null);
+    // Key slots the last profile scan covered, a wallet further down a profile's key list is not found
+    const [scannedKeySlots, setScannedKeySlots] = useState<number | null>(null);
     
     // Transfer auth state
     const [transferState, setTransferState] = useState<TransferState>(initialTransferState);
@@ -72,6 +125,34 @@ export const ProfileManager = () => {
     const prevWalletRef = useRef<string | null>(null);
     const [showFeePayerSettings, setShowFeePayerSettings] = useState(false);
 
+    // Batch key removal state, selected key indexes keyed by profile address
+    const [selectedKeyIndexes, setSelectedKeyIndexes] = useState<Map<string, Set<number>>>(new Map());
+    const [batchRemoval, setBatchRemoval] = useState<BatchRemovalState | null>(null);
+
+    // Key list filter and sort, expiry status is judged against cluster time
+    const [keyStatusFilter, setKeyStatusFilter] = useState<KeyExpiryStatus | 'all'>('all');
+    const [sortKeysByStatus, setSortKeysByStatus] = useState(false);
+    const [expiringSoonHours, setExpiringSoonHours] = useState(loadExpiringSoonHours);
+    // Text being typed, applied as soon as it is a valid number of hours and reset on blur otherwise
+    const [expiringSoonDraft, setExpiringSoonDraft] = useState(() => String(expiringSoonHours));
+
+    const [importModalOpen, setImportModalOpen] = useState(false);
+    const [createProfileOpen, setCreateProfileOpen] = useState(false);
+    const [signatureSession, setSignatureSession] = useState<SignatureSession | null>(null);
+    const [nonceManagerOpen, setNonceManagerOpen] = useState(false);
+
+    // Transactions awaiting the decoded review before the wallet is prompted
+    const { pendingReview, reviewTransactions, closeReview } = useTransactionReview();
+
+    // Add key state
+    const [addKeyProfile, setAddKeyProfile] = useState<PlayerProfile | null>(null);
+    const [sweeperOpen, setSweeperOpen] = useState(false);
+    const [emergencyRevokeOpen, setEmergencyRevokeOpen] = useState(false);
+    const [editKeyTarget, setEditKeyTarget] = useState<{ profile: PlayerProfile; keyIndex: number } | null>(null);
+    const [setNameProfile, setSetNameProfile] = useState<PlayerProfile | null>(null);
+    const [thresholdProfile, setThresholdProfile] = useState<PlayerProfile | null>(null);
+    const [authEditorProfile, setAuthEditorProfile] = useState<PlayerProfile | null>(null);
+
     // Check if we're in the middle of a transfer (after first signature) or showing completion
     // This prevents automatic profile refresh until user acknowledges the result
     const isTransferInProgress = 
@@ -80,17 +161,23 @@ export const ProfileManager = () => {
         transferState.step === 'expired' ||
         transferState.step === 'complete';
 
-    // Countdown timer for blockhash validity
+    // Countdown timer for blockhash validity, from the blocks left before the signed blockhash expires
     useEffect(() => {
-        if (!transferState.signedAt || transferState.step === 'complete' || transferState.step === 'expired') {
+        const lastValidBlockHeight = transferState.lastValidBlockHeight;
+        if (lastValidBlockHeight === null || transferState.step === 'complete' || transferState.step === 'expired') {
             setTimeRemaining(null);
             return;
         }
 
+        let cancelled = false;
+        // Last block height seen and the local time it was fetched at
+        let observed: { height: number; at: number } | null = null;
+
         const updateTimer = () => {
-            const elapsed = Math.floor((Date.now() - transferState.signedAt!) / 1000);
-            const remaining = BLOCKHASH_VALIDITY_SECONDS - elapsed;
-            
+            if (!observed) return;
+            const elapsed = (Date.now() - observed.at) / 1000;
+            const remaining = Math.floor((lastValidBlockHeight - observed.height) * BLOCK_TIME_SECONDS - elapsed);
+
             if (remaining <= 0) {
                 setTimeRemaining(0);
                 setTransferState(prev => ({
@@ -103,15 +190,31 @@ export const ProfileManager = () => {
             }
         };
 
-        // Update immediately
-        updateTimer();
+        const pollBlockHeight = async () => {
+            try {
+                const height = await connection.getBlockHeight('confirmed');
+                if (cancelled) return;
+                observed = { height, at: Date.now() };
+                updateTimer();
+            } catch (e) {
+                // Keep counting down from the last height seen
+                console.warn('Failed to fetch block height:', e);
+            }
+        };
 
-        // Then update every second
-        const interval = setInterval(updateTimer, 1000);
-        return () => clearInterval(interval);
-    }, [transferState.signedAt, transferState.step]);
+        pollBlockHeight();
+        const poll = setInterval(pollBlockHeight, BLOCK_HEIGHT_POLL_MS);
+        const tick = setInterval(updateTimer, 1000);
+        return () => {
+            cancelled = true;
+            clearInterval(poll);
+            clearInterval(tick);
+        };
+    }, [connection, transferState.lastValidBlockHeight, transferState.step]);
 
     const program = useMemo(() => {
+        // Without an endpoint of its own the connection is not on this network
+        if (!activeEndpoint) return null;
         const provider = new AnchorProvider(connection, wallet as any, {});
         try {
             return PlayerProfileProgram.buildProgram(new PublicKey(programId), provider);
@@ -119,7 +222,7 @@ export const ProfileManager = () => {
             console.error('Invalid program ID:', programId, e);
             return null;
         }
-    }, [connection, wallet, programId]);
+    }, [connection, wallet, programId, activeEndpoint]);
 
     // Fetch the player name for a given profile
     const fetchProfileName = useCallback(async (profileKey: PublicKey): Promise<string | null> => {
@@ -149,7 +252,7 @@ export const ProfileManager = () => {
         
         if (!wallet.publicKey || !program) return;
         setLoading(true);
-        setDebugInfo('');
+        setFetchError(null);
 
         try {
             console.log("Fetching profiles for:", wallet.publicKey.toBase58());
@@ -158,46 +261,67 @@ export const ProfileManager = () => {
 
             const programAccount = await connection.getAccountInfo(new PublicKey(programId));
             if (!programAccount) {
-                setDebugInfo(`Program ${programId} does not exist on this network. Try a different program ID.`);
+                setFetchError(`Program ${programId} does not exist on this network. Try a different program ID.`);
                 console.error("Program does not exist:", programId);
                 setProfiles([]);
+                setDelegatedProfiles([]);
                 return;
             }
 
             console.log("Program exists, fetching profiles for wallet:", wallet.publicKey.toBase58());
 
-            const results = await readAllFromRPC(
-                connection,
-                program,
-                PlayerProfile,
-                'confirmed',
-                [
-                    {
-                        memcmp: {
-                            offset: (PlayerProfile as any).MIN_DATA_SIZE + 2,
-                            bytes: wallet.publicKey.toBase58(),
+            // Scan every key slot, not just the first one, so profiles where the
+            // wallet is a secondary or scoped key are found as well
+            const walletKey = wallet.publicKey;
+            const found = new Map<string, PlayerProfile>();
+            let scanSlots = PROFILE_KEY_SCAN_SLOTS;
+            for (let batchStart = 0; batchStart < scanSlots; batchStart += PROFILE_KEY_SCAN_BATCH_SIZE) {
+                const slots = Array.from(
+                    { length: Math.min(PROFILE_KEY_SCAN_BATCH_SIZE, scanSlots - batchStart) },
+                    (_, i) => batchStart + i
+                );
+                const slotResults = await Promise.all(slots.map(slot => readAllFromRPC(
+                    connection,
+                    program,
+                    PlayerProfile,
+                    'confirmed',
+                    [
+                        {
+                            memcmp: {
+                                offset: PlayerProfile.MIN_DATA_SIZE + 2 + slot * PROFILE_KEY_MIN_DATA_SIZE,
+                                bytes: walletKey.toBase58(),
+                            },
                         },
-                    },
-                ]
-            );
+                    ]
+                )));
+                for (const results of slotResults) {
+                    for (const r of results) {
+                        if (r.type === 'ok') {
+                            found.set(r.data.key.toBase58(), r.data);
+                            // Scan as far as the longest key list seen
+                            scanSlots = Math.max(scanSlots, r.data.profileKeys.length);
+                        }
+                    }
+                }
+            }
+            setScannedKeySlots(scanSlots);
 
-            const myProfiles = results
-                .filter((r) => r.type === 'ok')
-                .map((r) => (r as any).data as PlayerProfile);
+            const isAuthOn = (profile: PlayerProfile) => profile.profileKeys.some(k =>
+                k.key.equals(walletKey) && profilePermissionsOf(k, program.programId).auth
+            );
+            const allProfiles = Array.from(found.values());
+            const myProfiles = allProfiles.filter(isAuthOn);
+            const keyOnProfiles = allProfiles.filter(p => !isAuthOn(p));
 
-            console.log("Found matching profiles:", myProfiles.length);
-            setDebugInfo(`Found ${myProfiles.length} profiles owned by your wallet.`);
-
-            if (myProfiles.length === 0) {
-                setDebugInfo(`No profiles found. Your wallet is not an auth key on any profiles for this program.`);
-            }
+            console.log("Found matching profiles:", myProfiles.length, "auth,", keyOnProfiles.length, "non-auth");
 
             setProfiles(myProfiles);
+            setDelegatedProfiles(keyOnProfiles);
 
             // Fetch names for all profiles in parallel
             const namesMap = new Map<string, string | null>();
             await Promise.all(
-                myProfiles.map(async (profile) => {
+                allProfiles.map(async (profile) => {
                     const name = await fetchProfileName(profile.key);
                     namesMap.set(profile.key.toBase58(), name);
                 })
@@ -205,7 +329,7 @@ export const ProfileManager = () => {
             setProfileNames(namesMap);
         } catch (e) {
             console.error("Error fetching profiles:", e);
-            setDebugInfo(`Error: ${e instanceof Error ? e.message : String(e)}`);
+            setFetchError(decodeError(e, 'Failed to load profiles'));
         } finally {
             setLoading(false);
         }
@@ -258,16 +382,119 @@ export const ProfileManager = () => {
             const instructions = ixsWithSignersArray.map(i => i.instruction);
 
             const tx = new Transaction().add(...instructions);
-            const { blockhash } = await connection.getLatestBlockhash();
-            tx.recentBlockhash = blockhash;
             tx.feePayer = wallet.publicKey;
+            await applyPriorityFee(connection, tx);
+            if (!(await reviewTransactions([tx], { simulate: true }))) return;
+
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            tx.recentBlockhash = blockhash;
 
-            const sig = await wallet.sendTransaction(tx, connection);
-            await connection.confirmTransaction(sig, 'confirmed');
+            const signed = await wallet.signTransaction(tx);
+            await sendAndConfirm(connection, signed, { lastValidBlockHeight, onStatus: trackStatus('Remove Key', profile.key) });
             await fetchProfiles();
         } catch (e) {
             console.error("Error deleting key:", e);
-            alert("Failed to delete key. See console.");
+            notify('error', formatError(decodeError(e, 'Failed to delete key')));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    // Profile-program permissions the connected wallet holds on a profile, combined across its keys
+    const getWalletPermissions = (profile: PlayerProfile) => {
+        const walletPerms = { auth: false, addKeys: false, removeKeys: false, changeName: false };
+        if (!wallet.publicKey || !program) return walletPerms;
+        for (const k of profile.profileKeys) {
+            if (!k.key.equals(wallet.publicKey) || !k.scope.equals(program.programId)) continue;
+            const perms = ProfilePermissions.fromPermissions(k.permissions);
+            walletPerms.auth ||= perms.auth;
+            walletPerms.addKeys ||= perms.auth || perms.addKeys;
+            walletPerms.removeKeys ||= perms.auth || perms.removeKeys;
+            walletPerms.changeName ||= perms.auth || perms.changeName;
+        }
+        return walletPerms;
+    };
+
+
+    const toggleKeySelection = (profile: PlayerProfile, keyIndex: number) => {
+        setSelectedKeyIndexes(prev => {
+            const next = new Map(prev);
+            const selected = new Set(next.get(profile.key.toBase58()) || []);
+            if (selected.has(keyIndex)) {
+                selected.delete(keyIndex);
+            } else {
+                selected.add(keyIndex);
+            }
+            next.set(profile.key.toBase58(), selected);
+            return next;
+        });
+    };
+
+    const setProfileSelection = (profile: PlayerProfile, keyIndexes: number[]) => {
+        setSelectedKeyIndexes(prev => new Map(prev).set(profile.key.toBase58(), new Set(keyIndexes)));
+    };
+
+    const handleRemoveSelectedKeys = async (profile: PlayerProfile) => {
+        const keyIndexes = Array.from(selectedKeyIndexes.get(profile.key.toBase58()) || []);
+        if (!wallet.publicKey || !wallet.signTransaction || !program || keyIndexes.length === 0) return;
+        setProcessing(true);
+
+        let statuses: BatchTxStatus[] = [];
+        try {
+            const asyncSigner = walletToAsyncSigner(wallet as any);
+            const { transactions, keyCounts } = await buildKeyRemovalBatch(program, profile, asyncSigner, keyIndexes, computeBudgetPlaceholder());
+            await Promise.all(transactions.map(tx => applyPriorityFee(connection, tx)));
+            statuses = transactions.map(() => 'pending');
+            setBatchRemoval({ profileKey: profile.key.toBase58(), statuses: [...statuses], keyCounts, error: null });
+
+            console.log(`Removing ${keyIndexes.length} keys across ${transactions.length} transactions`);
+
+            if (!(await reviewTransactions(transactions, { simulate: true }))) {
+                setBatchRemoval(null);
+                return;
+            }
+
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            transactions.forEach(tx => { tx.recentBlockhash = blockhash; });
+
+            // One wallet prompt for the whole batch where the wallet supports it
+            const signedTxs = wallet.signAllTransactions
+                ? await wallet.signAllTransactions(transactions)
+                : await transactions.reduce<Promise<Transaction[]>>(
+                    async (acc, tx) => [...(await acc), await wallet.signTransaction!(tx)],
+                    Promise.resolve([])
+                );
+
+            // Send in order, later transactions rely on the indexes left by earlier ones
+            for (let i = 0; i < signedTxs.length; i++) {
+                statuses[i] = 'sending';
+                setBatchRemoval(prev => prev && { ...prev, statuses: [...statuses] });
+
+                await sendAndConfirm(connection, signedTxs[i], { lastValidBlockHeight, onStatus: trackStatus('Remove Keys', profile.key) });
+
+                statuses[i] = 'confirmed';
+                setBatchRemoval(prev => prev && { ...prev, statuses: [...statuses] });
+            }
+
+            setProfileSelection(profile, []);
+            await fetchProfiles();
+        } catch (e) {
+            console.error("Error removing selected keys:", e);
+            const failedIndex = statuses.findIndex(st => st !== 'confirmed');
+            if (failedIndex !== -1) {
+                statuses[failedIndex] = 'failed';
+            }
+            setBatchRemoval(prev => ({
+                profileKey: profile.key.toBase58(),
+                statuses: [...statuses],
+                keyCounts: prev?.keyCounts || [],
+                error: decodeError(e, 'Failed to remove keys'),
+            }));
+            if (statuses.some(st => st === 'confirmed')) {
+                // Part of the batch landed, refresh so the remaining indexes are current
+                setProfileSelection(profile, []);
+                await fetchProfiles();
+            }
         } finally {
             setProcessing(false);
         }
@@ -316,6 +543,15 @@ export const ProfileManager = () => {
             return;
         }
 
+        const requiredCoSigners = transferState.profileKeyThreshold - 1;
+        if (transferState.coSigners.length !== requiredCoSigners) {
+            setTransferState(prev => ({
+                ...prev,
+                error: `This profile requires ${transferState.profileKeyThreshold} auth signatures. Select ${requiredCoSigners} co-signing auth ${requiredCoSigners === 1 ? 'key' : 'keys'}.`,
+            }));
+            return;
+        }
+
         setTransferState(prev => ({ ...prev, step: 'sign_current', error: null }));
     };
 
@@ -325,7 +561,7 @@ export const ProfileManager = () => {
             ...prev,
             step: 'sign_current',
             partiallySignedTx: null,
-            signedAt: null,
+            lastValidBlockHeight: null,
             error: null,
         }));
     };
@@ -355,37 +591,29 @@ export const ProfileManager = () => {
             
             const currentKeyIndex = selectedProfile.profileKeys.findIndex(k => 
                 k.key.equals(wallet.publicKey!) && 
-                ProfilePermissions.fromPermissions(k.permissions).auth
+                profilePermissionsOf(k, program!.programId).auth
             );
 
             if (currentKeyIndex === -1) {
                 throw new Error("Current wallet is not an auth key");
             }
 
-            // Build full permissions for the new key (AUTH + ADD + RM)
-            // This ensures the new key always has complete permissions, even if the old key was missing some
-            // Permission bits: auth=bit0, addKeys=bit1, removeKeys=bit2
-            const fullPermissionsRaw = [
-                0b00000111, // byte 0: auth (1) + addKeys (2) + removeKeys (4) = 7
-                0, 0, 0, 0, 0, 0, 0 // bytes 1-7: no additional permissions needed
-            ] as const;
-            
-            // Create a permissions wrapper that implements the PermissionType interface
-            // The SDK calls getPermissions() internally, so we need to provide this method
-            const fullPermissionsWrapper = {
-                getPermissions: () => fullPermissionsRaw,
-                or: function() { return this; },
-                and: function() { return this; },
-                eq: () => true,
-                contains: () => true,
-            };
+            // The new key keeps every permission of the old one and always gets AUTH + ADD + RM,
+            // even if the old key was missing some
+            const newKeyPermissions = RawPermissions.fromPermissions(selectedProfile.profileKeys[currentKeyIndex].permissions)
+                .or(RawPermissions.fromFlags(PROFILE_PERMISSION_FLAGS, ['auth', 'addKeys', 'removeKeys']));
 
             console.log("=== Building Transfer Auth Transaction ===");
             console.log("Profile:", selectedProfile.key.toBase58());
             console.log("Current auth key:", wallet.publicKey.toBase58());
             console.log("New auth key:", newAuthPubkey.toBase58());
             console.log("Current key index:", currentKeyIndex);
-            console.log("New key will have full permissions: AUTH + ADD + RM");
+            console.log("New key permissions:", newKeyPermissions.toHex());
+
+            // With a key threshold above 1 the selected co-signers sign after the current wallet
+            const coSignerInputs = getAuthKeys(selectedProfile, program!.programId)
+                .filter(entry => transferState.coSigners.includes(entry.key.toBase58()))
+                .map(entry => authKeyInput(program!, selectedProfile, entry, asyncSigner));
 
             const ixReturnFn = PlayerProfile.adjustAuth(
                 program as any,
@@ -393,13 +621,13 @@ export const ProfileManager = () => {
                     playerProfileProgram: program as any,
                     profile: selectedProfile,
                     key: asyncSigner
-                }],
+                }, ...coSignerInputs],
                 [
                     (cont) => cont({
                         key: newAuthPubkey,
                         expireTime: null,
                         scope: new PublicKey(programId),
-                        permissions: fullPermissionsWrapper as any // Always grant full permissions (AUTH + ADD + RM)
+                        permissions: newKeyPermissions,
                     })
                 ],
                 [currentKeyIndex, currentKeyIndex + 1],
@@ -418,12 +646,38 @@ export const ProfileManager = () => {
                 }
             }
 
-            const tx = new Transaction().add(...instructions);
-            const { blockhash } = await connection.getLatestBlockhash();
-            tx.recentBlockhash = blockhash;
+            const tx = new Transaction();
+            if (transferState.nonceAccount) {
+                // Durable nonce: advanceNonceAccount must be the first instruction and
+                // the stored nonce replaces the recent blockhash, so the signature never expires
+                const noncePubkey = new PublicKey(transferState.nonceAccount);
+                const nonceAccount = await connection.getNonce(noncePubkey);
+                if (!nonceAccount) {
+                    throw new Error("Nonce account is not initialized");
+                }
+                const authority = nonceAccount.authorizedPubkey;
+                if (!authority.equals(wallet.publicKey) && !authority.equals(newAuthPubkey)) {
+                    throw new Error("Nonce authority must be the current or the destination wallet");
+                }
+                tx.add(SystemProgram.nonceAdvance({ noncePubkey, authorizedPubkey: authority }));
+                tx.recentBlockhash = nonceAccount.nonce;
+                console.log("Using durable nonce account:", noncePubkey.toBase58());
+            }
+            tx.add(...instructions);
             // Set fee payer based on user selection
             const feePayerPubkey = transferState.feePayer === 'destination' ? newAuthPubkey : wallet.publicKey;
             tx.feePayer = feePayerPubkey;
+            await applyPriorityFee(connection, tx);
+
+            if (!(await reviewTransactions([tx], { simulate: true }))) return;
+
+            // Fetched after the review so time spent reading does not eat into the blockhash window
+            let lastValidBlockHeight: number | null = null;
+            if (!transferState.nonceAccount) {
+                const latest = await connection.getLatestBlockhash();
+                tx.recentBlockhash = latest.blockhash;
+                lastValidBlockHeight = latest.lastValidBlockHeight;
+            }
 
             console.log("Transaction built, requesting signature from current wallet...");
             console.log(`Fee payer set to ${transferState.feePayer} wallet:`, feePayerPubkey.toBase58());
@@ -441,11 +695,19 @@ export const ProfileManager = () => {
             console.log("Current wallet signed. Transaction serialized.");
             console.log("Partially signed tx (base64):", base64Tx.slice(0, 50) + "...");
 
+            if (transferState.coSigners.length > 0) {
+                // The co-signers and the destination sign through signature collection
+                setSignatureSession({ transaction: signedTx, profile: selectedProfile, operation: 'adjustAuth' });
+                closeTransferModal();
+                return;
+            }
+
             setTransferState(prev => ({
                 ...prev,
                 step: 'connect_destination',
                 partiallySignedTx: base64Tx,
-                signedAt: Date.now(),
+                // Nonce transactions have no blockhash deadline, so this stays null for them
+                lastValidBlockHeight,
                 error: null,
             }));
 
@@ -453,7 +715,7 @@ export const ProfileManager = () => {
             console.error("Error signing with current wallet:", e);
             setTransferState(prev => ({
                 ...prev,
-                error: `Failed to sign: ${e instanceof Error ? e.message : String(e)}`
+                error: decodeError(e, 'Failed to sign')
             }));
         } finally {
             setProcessing(false);
@@ -484,23 +746,19 @@ export const ProfileManager = () => {
 
             console.log("Transaction deserialized. Requesting signature from destination wallet...");
 
+            if (!(await reviewTransactions([tx], { simulate: true }))) return;
+
             // Sign with destination wallet
             const fullySignedTx = await wallet.signTransaction(tx);
 
             console.log("Destination wallet signed. Sending transaction...");
 
-            // Send the fully signed transaction
-            const signature = await connection.sendRawTransaction(fullySignedTx.serialize());
-            
+            // Confirmed against the blockhash the current wallet signed with, or the durable nonce
+            const signature = await sendAndConfirm(connection, fullySignedTx, {
+                lastValidBlockHeight: transferState.lastValidBlockHeight ?? undefined,
+                onStatus: trackStatus('Transfer Authority', transferState.profileKey),
+            });
             console.log("Transaction sent:", signature);
-            
-            // Confirm
-            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-            await connection.confirmTransaction({
-                signature,
-                blockhash,
-                lastValidBlockHeight
-            }, 'confirmed');
 
             console.log("Transaction confirmed!");
 
@@ -510,7 +768,7 @@ export const ProfileManager = () => {
             console.error("Error signing/sending with destination wallet:", e);
             setTransferState(prev => ({
                 ...prev,
-                error: `Failed: ${e instanceof Error ? e.message : String(e)}`
+                error: decodeError(e, 'Failed')
             }));
         } finally {
             setProcessing(false);
@@ -635,6 +893,17 @@ export const ProfileManager = () => {
                                 placeholder="Enter destination Solana address..."
                             />
                         </div>
+
+                        {/* Co-signing auth keys for profiles with a key threshold above 1 */}
+                        {transferState.profileKeyThreshold > 1 && selectedProfile && program && (
+                            <CoSignerPicker
+                                profile={selectedProfile}
+                                program={program}
+                                signer={transferState.originalAuthPubkey}
+                                selected={transferState.coSigners}
+                                onChange={(coSigners) => setTransferState(prev => ({ ...prev, coSigners, error: null }))}
+                            />
+                        )}
                         
                         {/* Fee Payer Settings - Collapsible */}
                         <div className="mb-6">
@@ -692,15 +961,43 @@ export const ProfileManager = () => {
                                             </button>
                                         </div>
                                     </div>
+                                    <div className="flex items-center justify-between mt-3 pt-3 border-t border-[var(--sa-border)]">
+                                        <div className="min-w-0">
+                                            <p className="font-mono text-xs text-[var(--sa-text)] uppercase tracking-wider font-bold mb-1">Durable Nonce</p>
+                                            <p className="font-mono text-xs text-[var(--sa-text-dim)] break-all">
+                                                {transferState.nonceAccount
+                                                    ? transferState.nonceAccount
+                                                    : 'No signing deadline between wallets'}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 shrink-0 ml-3">
+                                            <button
+                                                onClick={() => setTransferState(prev => ({ ...prev, nonceAccount: null }))}
+                                                className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                                    !transferState.nonceAccount
+                                                        ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                                        : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                                                }`}
+                                            >
+                                                Off
+                                            </button>
+                                            <button
+                                                onClick={() => setNonceManagerOpen(true)}
+                                                className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                                    transferState.nonceAccount
+                                                        ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                                        : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                                                }`}
+                                            >
+                                                {transferState.nonceAccount ? 'On' : 'Select'}
+                                            </button>
+                                        </div>
+                                    </div>
                                 </div>
                             )}
                         </div>
                         
-                        {transferState.error && (
-                            <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4">
-                                <p className="font-mono text-sm text-red-400">{transferState.error}</p>
-                            </div>
-                        )}
+                        {transferState.error && <ErrorNotice error={transferState.error} />}
                         <div className="flex justify-end gap-3">
                             <button 
                                 onClick={closeTransferModal}
@@ -812,11 +1109,7 @@ export const ProfileManager = () => {
                                 </div>
                             </div>
                         </div>
-                        {transferState.error && (
-                            <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4">
-                                <p className="font-mono text-sm text-red-400">{transferState.error}</p>
-                            </div>
-                        )}
+                        {transferState.error && <ErrorNotice error={transferState.error} />}
                         <div className="flex justify-end gap-3">
                             <button 
                                 onClick={() => setTransferState(prev => ({ ...prev, step: 'enter_destination', error: null }))}
@@ -863,6 +1156,11 @@ export const ProfileManager = () => {
                                     </span>
                                 </div>
                             )}
+                            {transferState.nonceAccount && (
+                                <div className="flex items-center gap-2 px-3 py-1.5 border bg-[var(--sa-dark)] border-[var(--sa-border)]">
+                                    <span className="font-mono text-xs font-bold text-emerald-400 uppercase tracking-wider">Durable Nonce</span>
+                                </div>
+                            )}
                         </div>
                         
                         {/* Step Progress Indicator */}
@@ -951,6 +1249,16 @@ export const ProfileManager = () => {
                             </div>
                         </div>
 
+                        {/* Export for signing on another device */}
+                        {transferState.partiallySignedTx && (
+                            <TransactionExport
+                                serializedTx={transferState.partiallySignedTx}
+                                operation="adjustAuth"
+                                profileKey={transferState.profileKey}
+                                durableNonce={!!transferState.nonceAccount}
+                            />
+                        )}
+
                         {/* Current wallet status */}
                         <div className="mb-4 p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
                             <p className="font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider mb-2">Current Connection</p>
@@ -978,11 +1286,7 @@ export const ProfileManager = () => {
                             )}
                         </div>
 
-                        {transferState.error && (
-                            <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4">
-                                <p className="font-mono text-sm text-red-400">{transferState.error}</p>
-                            </div>
-                        )}
+                        {transferState.error && <ErrorNotice error={transferState.error} />}
 
                         <div className="flex justify-between gap-3">
                             <button 
@@ -1044,6 +1348,11 @@ export const ProfileManager = () => {
                                     </span>
                                 </div>
                             )}
+                            {transferState.nonceAccount && (
+                                <div className="flex items-center gap-2 px-3 py-1.5 border bg-[var(--sa-dark)] border-[var(--sa-border)]">
+                                    <span className="font-mono text-xs font-bold text-emerald-400 uppercase tracking-wider">Durable Nonce</span>
+                                </div>
+                            )}
                         </div>
                         
                         {/* Step Progress Indicator - Both steps complete! */}
@@ -1130,11 +1439,7 @@ export const ProfileManager = () => {
                                 </div>
                             </div>
                         </div>
-                        {transferState.error && (
-                            <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4">
-                                <p className="font-mono text-sm text-red-400">{transferState.error}</p>
-                            </div>
-                        )}
+                        {transferState.error && <ErrorNotice error={transferState.error} />}
                         <div className="flex justify-end gap-3">
                             <button 
                                 onClick={closeTransferModal}
@@ -1232,6 +1537,15 @@ export const ProfileManager = () => {
                                 </div>
                             </div>
                         </div>
+                        {transferState.nonceAccount && (
+                            <div className="bg-[var(--sa-dark)] border border-[var(--sa-border)] p-3 mb-6">
+                                <p className="font-mono text-xs text-[var(--sa-text-dim)] leading-relaxed">
+                                    The nonce account used for this transfer still holds rent. Close it from{' '}
+                                    <button onClick={() => setNonceManagerOpen(true)} className="text-[var(--sa-accent)] hover:underline">NONCES</button>{' '}
+                                    once it is no longer needed.
+                                </p>
+                            </div>
+                        )}
                         <div className="flex justify-end">
                             <button 
                                 onClick={closeTransferModal}
@@ -1332,6 +1646,307 @@ export const ProfileManager = () => {
         }
     };
 
+    // Refreshed with every cluster status poll, which re-renders this component
+    const clusterTime = Math.floor(clusterNow() / 1000);
+
+    const getKeyRows = (profile: PlayerProfile) => profile.profileKeys.map((pk, idx) => {
+        const expireTime = getKeyExpireTime(pk.expireTime);
+        return { pk, idx, expireTime, status: classifyKeyExpiry(expireTime, clusterTime, expiringSoonHours) };
+    });
+
+    const keyStatusCounts = [...profiles, ...delegatedProfiles].flatMap(getKeyRows).reduce(
+        (counts, row) => ({ ...counts, [row.status]: counts[row.status] + 1 }),
+        { active: 0, expiring: 0, expired: 0 } as Record<KeyExpiryStatus, number>
+    );
+
+    const renderProfileCard = (profile: PlayerProfile, profileIndex: number) => {
+        const walletPerms = getWalletPermissions(profile);
+        const isReadOnly = !walletPerms.addKeys && !walletPerms.removeKeys && !walletPerms.changeName;
+        const removalKeyIndex = wallet.publicKey && program ? getRemovalKeyIndex(profile, program.programId, wallet.publicKey) : -1;
+        const removableIndexes = walletPerms.removeKeys
+            ? profile.profileKeys
+                .map((pk, idx) => ({ pk, idx }))
+                .filter(({ pk, idx }) => !profilePermissionsOf(pk, program!.programId).auth && idx !== removalKeyIndex)
+                .map(({ idx }) => idx)
+            : [];
+        const selected = selectedKeyIndexes.get(profile.key.toBase58()) || new Set<number>();
+        const keyRows = getKeyRows(profile).filter(row => keyStatusFilter === 'all' || row.status === keyStatusFilter);
+        if (sortKeysByStatus) {
+            // Most urgent first, then soonest to expire, keys that never expire last
+            keyRows.sort((a, b) =>
+                KEY_EXPIRY_STATUS_ORDER.indexOf(a.status) - KEY_EXPIRY_STATUS_ORDER.indexOf(b.status) ||
+                (a.expireTime ?? Infinity) - (b.expireTime ?? Infinity) ||
+                a.idx - b.idx
+            );
+        }
+        // Select all only picks the keys the filter shows, so all expired keys can be removed at once
+        const visibleRemovable = removableIndexes.filter(idx => keyRows.some(row => row.idx === idx));
+        const cardBatch = batchRemoval?.profileKey === profile.key.toBase58() ? batchRemoval : null;
+
+        return (
+            <div key={profile.key.toBase58()} className="sage-card overflow-hidden animate-fade-in-up" style={{ animationDelay: `${profileIndex * 0.1}s` }}>
+                {/* Card Header - Compact with inline info */}
+                <div className="bg-[var(--sa-black)] border-b border-[var(--sa-border)] px-4 py-2.5 flex items-center justify-between">
+                    <div className="flex items-center gap-4 flex-wrap">
+                        <div className="flex items-center gap-2">
+                            <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
+                                {String(profileIndex + 1).padStart(4, '0')}.
+                            </span>
+                            <span className="font-mono text-sm font-bold tracking-wider text-[var(--sa-text)]">PROFILE</span>
+                        </div>
+                        <div className="h-3 w-[1px] bg-[var(--sa-border)] hidden sm:block"></div>
+                        {/* Profile Username - Prominent Display */}
+                        {profileNames.get(profile.key.toBase58()) ? (
+                            <span className="font-mono text-base sm:text-lg font-bold tracking-wider text-[var(--sa-accent)] uppercase">
+                                {profileNames.get(profile.key.toBase58())}
+                            </span>
+                        ) : (
+                            <span className="font-mono text-sm text-[var(--sa-text-dim)]/50 tracking-wide">
+                                NO NAME
+                            </span>
+                        )}
+                        <div className="h-3 w-[1px] bg-[var(--sa-border)] hidden lg:block"></div>
+                        <span className="font-mono text-sm text-cyan-400 break-all hidden lg:block font-semibold tracking-wide">{profile.key.toBase58()}</span>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <div className="hidden md:flex items-center gap-4 text-[var(--sa-text-dim)]">
+                            <span className="font-mono text-sm">Created: <span className="text-[var(--sa-text)]">{new Date(profile.data.createdAt.toNumber() * 1000).toLocaleDateString()}</span></span>
+                            <span className="font-mono text-sm">Threshold: <span className="text-[var(--sa-text)]">{profile.data.keyThreshold}</span></span>
+                        </div>
+                        {isReadOnly && (
+                            <span className="font-mono text-xs bg-[var(--sa-dark)] text-[var(--sa-text-dim)] px-2 py-1 border border-[var(--sa-border)] uppercase tracking-wider">
+                                Read Only
+                            </span>
+                        )}
+                        {walletPerms.auth && (
+                            <button
+                                onClick={() => setAuthEditorProfile(profile)}
+                                className="font-mono text-sm text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                disabled={processing}
+                            >
+                                AUTH KEYS
+                            </button>
+                        )}
+                        {walletPerms.auth && (
+                            <button
+                                onClick={() => setThresholdProfile(profile)}
+                                className="font-mono text-sm text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                disabled={processing}
+                            >
+                                THRESHOLD
+                            </button>
+                        )}
+                        {walletPerms.changeName && (
+                            <button
+                                onClick={() => setSetNameProfile(profile)}
+                                className="font-mono text-sm text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                disabled={processing}
+                            >
+                                {profileNames.get(profile.key.toBase58()) ? 'RENAME' : 'SET NAME'}
+                            </button>
+                        )}
+                        {walletPerms.addKeys && (
+                            <button
+                                onClick={() => setAddKeyProfile(profile)}
+                                className="font-mono text-sm text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                disabled={processing}
+                            >
+                                + ADD KEY
+                            </button>
+                        )}
+                        <div className="status-indicator active"></div>
+                    </div>
+                </div>
+
+                {/* Mobile-only profile info */}
+                <div className="lg:hidden px-4 py-2 bg-[var(--sa-dark)] border-b border-[var(--sa-border)]">
+                    <span className="font-mono text-sm text-cyan-400 break-all font-semibold tracking-wide">{profile.key.toBase58()}</span>
+                </div>
+
+                {/* Batch removal bar */}
+                {selected.size > 0 && (
+                    <div className="px-4 py-2 bg-red-500/5 border-b border-red-500/30 flex items-center justify-between gap-3">
+                        <span className="font-mono text-sm text-red-400 uppercase tracking-wider">
+                            {selected.size} {selected.size === 1 ? 'key' : 'keys'} selected
+                        </span>
+                        <div className="flex items-center gap-4">
+                            <button
+                                onClick={() => setProfileSelection(profile, [])}
+                                className="font-mono text-sm text-[var(--sa-text-dim)] hover:text-[var(--sa-text)] uppercase tracking-wider disabled:opacity-50 transition-colors"
+                                disabled={processing}
+                            >
+                                CLEAR
+                            </button>
+                            <button
+                                onClick={() => handleRemoveSelectedKeys(profile)}
+                                className="font-mono text-sm text-red-400 hover:text-red-300 uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                disabled={processing}
+                            >
+                                REMOVE SELECTED
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Batch removal progress */}
+                {cardBatch && (
+                    <div className="px-4 py-2 bg-[var(--sa-dark)] border-b border-[var(--sa-border)]">
+                        <div className="flex flex-wrap items-center gap-2">
+                            {cardBatch.statuses.map((status, i) => (
+                                <span
+                                    key={i}
+                                    className={`font-mono text-xs px-2 py-1 border uppercase tracking-wider ${
+                                        status === 'confirmed' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30'
+                                            : status === 'sending' ? 'bg-amber-500/10 text-amber-400 border-amber-500/30 animate-pulse'
+                                            : status === 'failed' ? 'bg-red-500/10 text-red-400 border-red-500/30'
+                                            : 'text-[var(--sa-text-dim)] border-[var(--sa-border)]'
+                                    }`}
+                                >
+                                    TX {i + 1}/{cardBatch.statuses.length} · {cardBatch.keyCounts[i] ?? 0} keys · {status}
+                                </span>
+                            ))}
+                            {!processing && (
+                                <button
+                                    onClick={() => setBatchRemoval(null)}
+                                    className="ml-auto font-mono text-xs text-[var(--sa-text-dim)] hover:text-[var(--sa-text)] uppercase tracking-wider"
+                                >
+                                    DISMISS
+                                </button>
+                            )}
+                        </div>
+                        {cardBatch.error && <ErrorNotice error={cardBatch.error} className="mt-2" />}
+                    </div>
+                )}
+
+                {/* Keys Table - Compact */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead className="bg-[var(--sa-dark)]">
+                            <tr>
+                                {removableIndexes.length > 0 && (
+                                    <th className="pl-4 py-2 w-8">
+                                        <input
+                                            type="checkbox"
+                                            title="Select all removable keys shown"
+                                            checked={visibleRemovable.length > 0 && visibleRemovable.every(idx => selected.has(idx))}
+                                            onChange={(e) => setProfileSelection(profile, e.target.checked ? visibleRemovable : [])}
+                                            disabled={processing || visibleRemovable.length === 0}
+                                        />
+                                    </th>
+                                )}
+                                <th className="px-4 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold">Key</th>
+                                <th className="px-3 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold">Scope</th>
+                                <th className="px-3 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold">Permissions</th>
+                                <th className="px-3 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold">Expiry</th>
+                                <th className="px-3 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[var(--sa-border)]">
+                            {keyRows.length === 0 && (
+                                <tr>
+                                    <td colSpan={removableIndexes.length > 0 ? 6 : 5} className="px-4 py-3 font-mono text-sm text-[var(--sa-text-dim)]">
+                                        No {keyStatusFilter} keys.
+                                    </td>
+                                </tr>
+                            )}
+                            {keyRows.map(({ pk, idx, expireTime, status }) => {
+                                const isAuth = profilePermissionsOf(pk, program!.programId).auth;
+                                const scope = getPermissionScope(pk.scope, program!.programId);
+                                const isMe = wallet.publicKey && pk.key.equals(wallet.publicKey);
+
+                                return (
+                                    <tr key={`${profile.key.toBase58()}-${idx}`} className={`hover:bg-[rgb(var(--sa-accent-rgb-space))]/5 transition-colors ${isMe ? 'bg-emerald-500/5' : ''}`}>
+                                        {removableIndexes.length > 0 && (
+                                            <td className="pl-4 py-3 w-8">
+                                                {removableIndexes.includes(idx) && (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selected.has(idx)}
+                                                        onChange={() => toggleKeySelection(profile, idx)}
+                                                        disabled={processing}
+                                                    />
+                                                )}
+                                            </td>
+                                        )}
+                                        <td className="px-4 py-3 font-mono text-sm text-[var(--sa-text)]">
+                                            <div className="flex items-center gap-2">
+                                                <span 
+                                                    className="cursor-help hover:text-cyan-400 transition-colors" 
+                                                    title={pk.key.toBase58()}
+                                                >
+                                                    {pk.key.toBase58().slice(0, 4)}...{pk.key.toBase58().slice(-4)}
+                                                </span>
+                                                {isMe && (
+                                                    <span className="font-mono text-sm bg-emerald-500/20 text-emerald-400 px-2 py-1 border border-emerald-500/30 whitespace-nowrap">
+                                                        YOU
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="px-3 py-3">
+                                            {scope ? (
+                                                <span
+                                                    className="font-mono text-sm bg-cyan-500/10 text-cyan-400 px-2 py-1 border border-cyan-500/30 whitespace-nowrap cursor-help"
+                                                    title={pk.scope.toBase58()}
+                                                >
+                                                    {scope.name.toUpperCase()}
+                                                </span>
+                                            ) : (
+                                                <span className="font-mono text-sm text-[var(--sa-text-dim)] cursor-help" title={pk.scope.toBase58()}>
+                                                    {pk.scope.toBase58().slice(0, 4)}...{pk.scope.toBase58().slice(-4)}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-3">
+                                            <PermissionBadges permissions={pk.permissions} scope={scope} />
+                                        </td>
+                                        <td className="px-3 py-2 font-mono text-sm text-[var(--sa-text-dim)]">
+                                            <KeyExpiryBadge expireTime={expireTime} status={status} clusterTime={clusterTime} />
+                                        </td>
+                                        <td className="px-3 py-2 text-right">
+                                            {isAuth && isMe ? (
+                                                <button 
+                                                    onClick={() => openTransferModal(profile)}
+                                                    className="font-mono text-sm text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                                    disabled={processing}
+                                                >
+                                                    TRANSFER
+                                                </button>
+                                            ) : (
+                                                !isAuth && (
+                                                    <div className="flex justify-end gap-3">
+                                                        {walletPerms.addKeys && removableIndexes.includes(idx) && (
+                                                            <button
+                                                                onClick={() => setEditKeyTarget({ profile, keyIndex: idx })}
+                                                                className="font-mono text-sm text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                                                disabled={processing}
+                                                            >
+                                                                EDIT
+                                                            </button>
+                                                        )}
+                                                        {walletPerms.removeKeys && (
+                                                            <button 
+                                                                onClick={() => handleDeleteKey(profile, idx)}
+                                                                className="font-mono text-sm text-red-400 hover:text-red-300 uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
+                                                                disabled={processing}
+                                                            >
+                                                                DELETE
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                )
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        );
+    };
+
     return (
         <div className="container mx-auto px-6">
             {/* Section Header */}
@@ -1367,22 +1982,12 @@ export const ProfileManager = () => {
                             <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">NETWORK</span>
                         </div>
                         <div className="flex-1 flex flex-wrap gap-2">
-                            {PROGRAM_ID_OPTIONS.map((option) => {
-                                const isSelected = selectedNetwork === option.network;
+                            {NETWORK_PROFILES.map((option) => {
+                                const isSelected = network.id === option.id;
                                 return (
                                     <button
                                         key={option.id}
-                                        onClick={() => {
-                                            setSelectedNetwork(option.network);
-                                            if (option.network !== 'custom') {
-                                                setProgramId(option.id);
-                                            } else {
-                                                // Use stored custom program ID if available
-                                                if (customProgramId) {
-                                                    setProgramId(customProgramId);
-                                                }
-                                            }
-                                        }}
+                                        onClick={() => setNetwork(option.id)}
                                         className={`
                                             relative px-4 py-2.5 font-mono text-sm uppercase tracking-wider font-bold
                                             border transition-all duration-200
@@ -1404,6 +2009,39 @@ export const ProfileManager = () => {
                                 );
                             })}
                         </div>
+                        <button
+                            onClick={() => setCreateProfileOpen(true)}
+                            disabled={!program}
+                            className="sage-button-secondary py-2 px-4 shrink-0 disabled:opacity-50"
+                        >
+                            CREATE PROFILE
+                        </button>
+                        <button
+                            onClick={() => setImportModalOpen(true)}
+                            className="sage-button-secondary py-2 px-4 shrink-0"
+                        >
+                            IMPORT TX
+                        </button>
+                        <button
+                            onClick={() => setSweeperOpen(true)}
+                            disabled={!program || profiles.length + delegatedProfiles.length === 0}
+                            className="sage-button-secondary py-2 px-4 shrink-0 disabled:opacity-50"
+                        >
+                            SWEEP EXPIRED
+                        </button>
+                        <button
+                            onClick={() => setEmergencyRevokeOpen(true)}
+                            disabled={!program || profiles.length === 0}
+                            className="sage-button-secondary py-2 px-4 shrink-0 border-red-500/50 text-red-400 disabled:opacity-50"
+                        >
+                            EMERGENCY REVOKE
+                        </button>
+                        <button
+                            onClick={() => setNonceManagerOpen(true)}
+                            className="sage-button-secondary py-2 px-4 shrink-0"
+                        >
+                            NONCES
+                        </button>
                         <button
                             onClick={fetchProfiles}
                             disabled={loading}
@@ -1414,7 +2052,7 @@ export const ProfileManager = () => {
                     </div>
                     
                     {/* Custom Program ID Input - Only shown when Custom is selected */}
-                    {selectedNetwork === 'custom' && (
+                    {network.id === 'custom' && (
                         <div className="mt-3 flex flex-col sm:flex-row gap-2">
                             <div className="flex items-center gap-2 shrink-0">
                                 <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Custom ID:</span>
@@ -1422,15 +2060,7 @@ export const ProfileManager = () => {
                             <input
                                 type="text"
                                 value={customProgramId}
-                                onChange={(e) => {
-                                    const value = e.target.value;
-                                    setCustomProgramId(value);
-                                    setProgramId(value);
-                                    // Persist to localStorage
-                                    if (typeof window !== 'undefined') {
-                                        localStorage.setItem(CUSTOM_PROGRAM_ID_KEY, value);
-                                    }
-                                }}
+                                onChange={(e) => setCustomProgramId(e.target.value)}
                                 className="sage-input flex-1 py-2 text-xs font-mono"
                                 placeholder="Enter custom program ID..."
                             />
@@ -1442,145 +2072,252 @@ export const ProfileManager = () => {
                         <span className="font-mono text-xs uppercase tracking-wider">Program ID:</span>
                         <span className="font-mono text-xs text-[var(--sa-text)] break-all">{programId}</span>
                     </div>
-                    {debugInfo && (
-                        <div className="mt-2 bg-[var(--sa-black)] border border-[var(--sa-border)] px-3 py-2">
-                            <p className="font-mono text-sm text-[var(--sa-text-dim)]">{debugInfo}</p>
-                        </div>
+                    <div className="mt-1 flex items-center gap-2 text-[var(--sa-text-dim)]">
+                        <span className="font-mono text-xs uppercase tracking-wider">RPC:</span>
+                        <span className="font-mono text-xs text-[var(--sa-text)] break-all">
+                            {activeEndpoint ? `${activeEndpoint.name} (${activeEndpoint.url})` : 'None'}
+                        </span>
+                    </div>
+                    {!activeEndpoint && (
+                        <ErrorNotice
+                            error={{
+                                message: `No RPC endpoint is saved for ${network.label}.`,
+                                fix: `Add a ${network.label} RPC endpoint to load profiles on this network.`,
+                                action: 'rpc-settings',
+                                raw: '',
+                            }}
+                            className="mt-2"
+                        />
                     )}
+                    {fetchError && <ErrorNotice error={fetchError} className="mt-2" />}
                 </div>
             )}
 
-            {!isTransferInProgress && profiles.length === 0 ? (
+            {!isTransferInProgress && profiles.length === 0 && delegatedProfiles.length === 0 ? (
                 <div className="sage-card p-8 text-center">
                         <p className="font-mono text-base text-[var(--sa-text-dim)] tracking-wide">No profiles found for this wallet.</p>
+                        {program && (
+                            <button onClick={() => setCreateProfileOpen(true)} className="sage-button mt-4">
+                                CREATE PROFILE
+                            </button>
+                        )}
                 </div>
             ) : !isTransferInProgress && (
-                <div className="grid gap-4">
-                    {profiles.map((profile, profileIndex) => (
-                        <div key={profile.key.toBase58()} className="sage-card overflow-hidden animate-fade-in-up" style={{ animationDelay: `${profileIndex * 0.1}s` }}>
-                            {/* Card Header - Compact with inline info */}
-                            <div className="bg-[var(--sa-black)] border-b border-[var(--sa-border)] px-4 py-2.5 flex items-center justify-between">
-                                <div className="flex items-center gap-4 flex-wrap">
-                                    <div className="flex items-center gap-2">
-                                        <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
-                                            {String(profileIndex + 1).padStart(4, '0')}.
-                                        </span>
-                                        <span className="font-mono text-sm font-bold tracking-wider text-[var(--sa-text)]">PROFILE</span>
-                                    </div>
-                                    <div className="h-3 w-[1px] bg-[var(--sa-border)] hidden sm:block"></div>
-                                    {/* Profile Username - Prominent Display */}
-                                    {profileNames.get(profile.key.toBase58()) ? (
-                                        <span className="font-mono text-base sm:text-lg font-bold tracking-wider text-[var(--sa-accent)] uppercase">
-                                            {profileNames.get(profile.key.toBase58())}
-                                        </span>
-                                    ) : (
-                                        <span className="font-mono text-sm text-[var(--sa-text-dim)]/50 tracking-wide">
-                                            NO NAME
-                                        </span>
-                                    )}
-                                    <div className="h-3 w-[1px] bg-[var(--sa-border)] hidden lg:block"></div>
-                                    <span className="font-mono text-sm text-cyan-400 break-all hidden lg:block font-semibold tracking-wide">{profile.key.toBase58()}</span>
-                                </div>
-                                <div className="flex items-center gap-4">
-                                    <div className="hidden md:flex items-center gap-4 text-[var(--sa-text-dim)]">
-                                        <span className="font-mono text-sm">Created: <span className="text-[var(--sa-text)]">{new Date(profile.data.createdAt.toNumber() * 1000).toLocaleDateString()}</span></span>
-                                        <span className="font-mono text-sm">Threshold: <span className="text-[var(--sa-text)]">{profile.data.keyThreshold}</span></span>
-                                    </div>
-                                    <div className="status-indicator active"></div>
-                                </div>
+                <>
+                    {/* Key expiry filter and sort */}
+                    <div className="sage-card p-3 mb-4 flex flex-wrap items-center gap-3">
+                        <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">KEYS</span>
+                        <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 w-fit">
+                            {(['all', ...KEY_EXPIRY_STATUS_ORDER] as const).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setKeyStatusFilter(option)}
+                                    className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                        keyStatusFilter === option
+                                            ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                            : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                                    }`}
+                                >
+                                    {option}{option !== 'all' && ` (${keyStatusCounts[option]})`}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 w-fit">
+                            {([false, true] as const).map(byStatus => (
+                                <button
+                                    key={String(byStatus)}
+                                    onClick={() => setSortKeysByStatus(byStatus)}
+                                    className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                        sortKeysByStatus === byStatus
+                                            ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                            : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                                    }`}
+                                >
+                                    {byStatus ? 'Sort: Status' : 'Sort: Slot'}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">
+                            Expiring within
+                            <input
+                                type="number"
+                                min={1}
+                                value={expiringSoonDraft}
+                                onChange={(e) => {
+                                    setExpiringSoonDraft(e.target.value);
+                                    const hours = Number(e.target.value);
+                                    if (e.target.value.trim() === '' || !Number.isFinite(hours) || hours <= 0) return;
+                                    setExpiringSoonHours(hours);
+                                    saveExpiringSoonHours(hours);
+                                }}
+                                onBlur={() => setExpiringSoonDraft(String(expiringSoonHours))}
+                                className="sage-input w-20 py-1 text-xs"
+                            />
+                            hours
+                        </label>
+                        <span
+                            className="ml-auto font-mono text-xs text-[var(--sa-text-dim)]"
+                            title="Key expiry is checked against the cluster's Clock sysvar, not this device's clock"
+                        >
+                            {clusterStatus?.driftSeconds != null ? 'Cluster time' : 'Local time (cluster clock not read yet)'}: {new Date(clusterTime * 1000).toLocaleString()}
+                        </span>
+                    </div>
+
+                    {profiles.length > 0 && (
+                        <div className="grid gap-4">
+                            {profiles.map((profile, profileIndex) => renderProfileCard(profile, profileIndex))}
+                        </div>
+                    )}
+
+                    {delegatedProfiles.length > 0 && (
+                        <>
+                            <div className="section-header mt-10">
+                                <span className="section-number">0002.</span>
+                                <h2 className="section-title">PROFILES I AM A KEY ON</h2>
+                                <div className="section-line"></div>
                             </div>
-                            
-                            {/* Mobile-only profile info */}
-                            <div className="lg:hidden px-4 py-2 bg-[var(--sa-dark)] border-b border-[var(--sa-border)]">
-                                <span className="font-mono text-sm text-cyan-400 break-all font-semibold tracking-wide">{profile.key.toBase58()}</span>
+                            <div className="grid gap-4">
+                                {delegatedProfiles.map((profile, profileIndex) => renderProfileCard(profile, profileIndex))}
                             </div>
+                        </>
+                    )}
+                </>
+            )}
 
-                            {/* Keys Table - Compact */}
-                            <div className="overflow-x-auto">
-                                <table className="w-full text-left">
-                                    <thead className="bg-[var(--sa-dark)]">
-                                        <tr>
-                                            <th className="px-4 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold">Key</th>
-                                            <th className="px-3 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold">Permissions</th>
-                                            <th className="px-3 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold">Expiry</th>
-                                            <th className="px-3 py-2 font-mono text-sm uppercase tracking-wider text-[var(--sa-text-dim)] font-bold text-right">Actions</th>
-                                        </tr>
-                                    </thead>
-                                    <tbody className="divide-y divide-[var(--sa-border)]">
-                                        {profile.profileKeys.map((pk, idx) => {
-                                            const perms = ProfilePermissions.fromPermissions(pk.permissions);
-                                            const isAuth = perms.auth;
-                                            const isMe = wallet.publicKey && pk.key.equals(wallet.publicKey);
-
-                                            return (
-                                                <tr key={`${profile.key.toBase58()}-${idx}`} className="hover:bg-[rgb(var(--sa-accent-rgb-space))]/5 transition-colors">
-                                                    <td className="px-4 py-3 font-mono text-sm text-[var(--sa-text)]">
-                                                        <div className="flex items-center gap-2">
-                                                            <span 
-                                                                className="cursor-help hover:text-cyan-400 transition-colors" 
-                                                                title={pk.key.toBase58()}
-                                                            >
-                                                                {pk.key.toBase58().slice(0, 4)}...{pk.key.toBase58().slice(-4)}
-                                                            </span>
-                                                            {isMe && (
-                                                                <span className="font-mono text-sm bg-emerald-500/20 text-emerald-400 px-2 py-1 border border-emerald-500/30 whitespace-nowrap">
-                                                                    YOU
-                                                                </span>
-                                                            )}
-                                                        </div>
-                                                    </td>
-                                                    <td className="px-3 py-3">
-                                                        <div className="flex flex-wrap gap-1">
-                                                            {isAuth && (
-                                                                <span className="font-mono text-sm bg-red-500/20 text-red-400 px-2 py-1 border border-red-500/30">AUTH</span>
-                                                                )}
-                                                                {perms.addKeys && (
-                                                                    <span className="font-mono text-sm bg-blue-500/20 text-blue-400 px-2 py-1 border border-blue-500/30">ADD</span>
-                                                                )}
-                                                                {perms.removeKeys && (
-                                                                    <span className="font-mono text-sm bg-amber-500/20 text-amber-400 px-2 py-1 border border-amber-500/30">RM</span>
-                                                                )}
-                                                            </div>
-                                                        </td>
-                                                        <td className="px-3 py-2 font-mono text-sm text-[var(--sa-text-dim)]">
-                                                            {pk.expireTime.lt(new BN(0)) ? 'Never' : new Date(pk.expireTime.toNumber() * 1000).toLocaleDateString()}
-                                                        </td>
-                                                        <td className="px-3 py-2 text-right">
-                                                            {isAuth && isMe ? (
-                                                                <button 
-                                                                    onClick={() => openTransferModal(profile)}
-                                                                    className="font-mono text-sm text-[var(--sa-accent)] hover:text-[var(--sa-accent-hover)] uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
-                                                                    disabled={processing}
-                                                                >
-                                                                    TRANSFER
-                                                                </button>
-                                                            ) : (
-                                                                !isAuth && (
-                                                                    <button 
-                                                                        onClick={() => handleDeleteKey(profile, idx)}
-                                                                        className="font-mono text-sm text-red-400 hover:text-red-300 uppercase font-bold tracking-wider disabled:opacity-50 transition-colors"
-                                                                        disabled={processing}
-                                                                    >
-                                                                        DELETE
-                                                                    </button>
-                                                                )
-                                                            )}
-                                                        </td>
-                                                    </tr>
-                                                );
-                                            })}
-                                        </tbody>
-                                    </table>
-                                </div>
-                        </div>
-                    ))}
-                </div>
+            {!isTransferInProgress && scannedKeySlots !== null && (
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-4">
+                    Profiles are found by checking the first {scannedKeySlots} key slots for this wallet. A profile where it is a later key is not listed.
+                </p>
+            )}
+
+            {/* Add Key Modal */}
+            {addKeyProfile && program && (
+                <AddKeyModal
+                    profile={addKeyProfile}
+                    program={program}
+                    onClose={() => setAddKeyProfile(null)}
+                    onKeyAdded={fetchProfiles}
+                />
+            )}
+
+            {/* Edit Key Modal */}
+            {editKeyTarget && program && (
+                <EditKeyModal
+                    profile={editKeyTarget.profile}
+                    program={program}
+                    keyIndex={editKeyTarget.keyIndex}
+                    onClose={() => setEditKeyTarget(null)}
+                    onKeyUpdated={fetchProfiles}
+                />
+            )}
+
+            {/* Expired Key Sweeper */}
+            {sweeperOpen && program && (
+                <ExpiredKeySweeperModal
+                    profiles={[...profiles, ...delegatedProfiles]}
+                    program={program}
+                    onClose={() => setSweeperOpen(false)}
+                    onSwept={fetchProfiles}
+                />
+            )}
+
+            {/* Emergency Revoke */}
+            {emergencyRevokeOpen && program && (
+                <EmergencyRevokeModal
+                    profiles={profiles}
+                    program={program}
+                    onClose={() => setEmergencyRevokeOpen(false)}
+                    onRevoked={fetchProfiles}
+                />
+            )}
+
+            {/* Set Name Modal */}
+            {setNameProfile && program && (
+                <SetNameModal
+                    profile={setNameProfile}
+                    program={program}
+                    currentName={profileNames.get(setNameProfile.key.toBase58()) || null}
+                    onClose={() => setSetNameProfile(null)}
+                    onNameSet={fetchProfiles}
+                />
+            )}
+
+            {/* Create Profile Modal */}
+            {createProfileOpen && program && (
+                <CreateProfileModal
+                    program={program}
+                    onClose={() => setCreateProfileOpen(false)}
+                    onCreated={fetchProfiles}
+                />
+            )}
+
+            {/* Threshold Editor Modal */}
+            {thresholdProfile && program && (
+                <ThresholdEditorModal
+                    profile={thresholdProfile}
+                    program={program}
+                    onClose={() => setThresholdProfile(null)}
+                    onUpdated={fetchProfiles}
+                    onCollectSignatures={setSignatureSession}
+                />
+            )}
+
+            {/* Auth Key Editor Modal */}
+            {authEditorProfile && program && (
+                <AuthKeyEditorModal
+                    profile={authEditorProfile}
+                    program={program}
+                    onClose={() => setAuthEditorProfile(null)}
+                    onUpdated={fetchProfiles}
+                    onCollectSignatures={setSignatureSession}
+                />
+            )}
+
+            {/* Multi-signature collection */}
+            {signatureSession && program && (
+                <SignatureCollectionModal
+                    {...signatureSession}
+                    program={program}
+                    onClose={() => setSignatureSession(null)}
+                    onComplete={fetchProfiles}
+                />
+            )}
+
+            {/* Import Transaction Modal */}
+            {importModalOpen && (
+                <ImportTransactionModal
+                    program={program || undefined}
+                    onClose={() => setImportModalOpen(false)}
+                    onComplete={fetchProfiles}
+                />
+            )}
+
+            {pendingReview && (
+                <TransactionReviewModal
+                    transactions={pendingReview.transactions}
+                    program={program || undefined}
+                    simulate={pendingReview.simulate}
+                    onApprove={() => closeReview(true)}
+                    onCancel={() => closeReview(false)}
+                />
+            )}
+
+            {nonceManagerOpen && (
+                <NonceAccountManager
+                    onClose={() => setNonceManagerOpen(false)}
+                    onSelect={transferState.step === 'enter_destination'
+                        ? (address) => {
+                            setTransferState(prev => ({ ...prev, nonceAccount: address }));
+                            setNonceManagerOpen(false);
+                        }
+                        : undefined}
+                />
             )}
 
             {/* Transfer Modal */}
             {showTransferModal && (
                 <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-                    <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30">
+                    <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
                         {renderTransferModalContent()}
                     </div>
                 </div>
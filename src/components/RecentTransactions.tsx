@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { TrackedTransaction, useTransactionTracker } from './TransactionTracker';
+import { useRpcSettings } from './WalletContextProvider';
+import { EXPLORER_OPTIONS } from '../utils/explorer';
+import { SendStatus } from '../utils/sendTransaction';
+
+// How often unsettled transactions are checked while the drawer is open
+const STATUS_REFRESH_MS = 5000;
+// A sent transaction the cluster has never seen is expired once this long has passed. Blockhashes
+// last about a minute, rebroadcasting stops when the page is closed.
+const SENT_EXPIRY_MS = 3 * 60 * 1000;
+
+const STATUS_STYLES: Record<SendStatus, string> = {
+    sent: 'text-amber-400 border-amber-500/30 bg-amber-500/10',
+    confirmed: 'text-cyan-400 border-cyan-500/30 bg-cyan-500/10',
+    finalized: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10',
+    expired: 'text-[var(--sa-text-dim)] border-[var(--sa-border)] bg-[var(--sa-dark)]',
+    failed: 'text-red-400 border-red-500/30 bg-red-500/10',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const isSettling = (entry: TrackedTransaction) => entry.status === 'sent' || entry.status === 'confirmed';
+
+export const RecentTransactions = () => {
+    const { connection } = useConnection();
+    const { network, activeEndpoint } = useRpcSettings();
+    const { history, updateStatus, clearHistory, explorerSettings, setExplorerSettings, getExplorerUrl } = useTransactionTracker();
+    const [isOpen, setIsOpen] = useState(false);
+    const [templateInput, setTemplateInput] = useState(explorerSettings.customTemplate);
+
+    // Joined so the effect below only restarts when the settling transactions change. Other networks'
+    // transactions are unknown to this connection and wait until their network is selected, and
+    // has an endpoint rather than the mainnet fallback.
+    const settlingKey = !activeEndpoint ? '' : history
+        .filter(entry => isSettling(entry) && entry.network === network.id)
+        .map(entry => `${entry.signature}:${entry.status}:${entry.sentAt}`)
+        .join(',');
+
+    // Follows sent and confirmed transactions to finalization, including ones from earlier sessions
+    useEffect(() => {
+        if (!isOpen || !settlingKey) return;
+        const settling = settlingKey.split(',').map(key => key.split(':'));
+        const signatures = settling.map(([signature]) => signature);
+        let cancelled = false;
+        const refresh = async () => {
+            try {
+                const { value } = await connection.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+                if (cancelled) return;
+                value.forEach((status, i) => {
+                    if (!status) {
+                        const [, entryStatus, sentAt] = settling[i];
+                        if (entryStatus === 'sent' && Date.now() - Number(sentAt) > SENT_EXPIRY_MS) updateStatus(signatures[i], 'expired');
+                        return;
+                    }
+                    if (status.err) updateStatus(signatures[i], 'failed');
+                    else if (status.confirmationStatus === 'finalized') updateStatus(signatures[i], 'finalized');
+                    else if (status.confirmationStatus === 'confirmed') updateStatus(signatures[i], 'confirmed');
+                });
+            } catch (e) {
+                console.error('Failed to refresh transaction statuses:', e);
+            }
+        };
+        refresh();
+        const interval = setInterval(refresh, STATUS_REFRESH_MS);
+        return () => { cancelled = true; clearInterval(interval); };
+    }, [isOpen, settlingKey, connection, updateStatus]);
+
+    const pendingCount = history.filter(entry => entry.status === 'sent').length;
+
+    return (
+        <>
+            <button
+                onClick={() => setIsOpen(true)}
+                className="flex items-center gap-2 px-4 py-2.5 border font-mono text-sm font-bold uppercase tracking-wider transition-all bg-[var(--sa-dark)] text-[var(--sa-text-dim)] border-[var(--sa-border)] hover:text-[var(--sa-text)] hover:border-[var(--sa-accent)]"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm.75-13a.75.75 0 00-1.5 0v5c0 .414.336.75.75.75h4a.75.75 0 000-1.5h-3.25V5z" clipRule="evenodd" />
+                </svg>
+                TXS
+                {pendingCount > 0 && (
+                    <span className="px-1.5 bg-amber-500/20 text-amber-400 text-xs">{pendingCount}</span>
+                )}
+            </button>
+
+            {isOpen && createPortal(
+                <div
+                    className="fixed inset-0 bg-black/80 backdrop-blur-sm flex justify-end z-[80]"
+                    onClick={(e) => {
+                        if (e.target === e.currentTarget) {
+                            setIsOpen(false);
+                        }
+                    }}
+                >
+                    <div className="sage-card w-full max-w-md h-full p-6 overflow-y-auto border-l border-[var(--sa-border)]">
+                        <div className="flex items-center justify-between mb-4">
+                            <div className="flex items-center gap-2">
+                                <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">LOG</span>
+                                <h3 className="font-mono text-base font-bold tracking-wider text-[var(--sa-text)]">RECENT TRANSACTIONS</h3>
+                            </div>
+                            <button onClick={() => setIsOpen(false)} className="font-mono text-sm text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]">
+                                ✕
+                            </button>
+                        </div>
+
+                        <div className="mb-4">
+                            <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Explorer</label>
+                            <div className="flex items-center gap-1 bg-[var(--sa-black)] border border-[var(--sa-border)] p-0.5 w-fit mb-2">
+                                {EXPLORER_OPTIONS.map(option => (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => setExplorerSettings({ ...explorerSettings, explorer: option.id })}
+                                        className={`px-3 py-1.5 font-mono text-xs uppercase tracking-wider transition-all ${
+                                            explorerSettings.explorer === option.id
+                                                ? 'bg-[var(--sa-accent)] text-[var(--sa-black)] font-bold'
+                                                : 'text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]'
+                                        }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {explorerSettings.explorer === 'custom' && (
+                                <>
+                                    <input
+                                        type="text"
+                                        value={templateInput}
+                                        onChange={(e) => setTemplateInput(e.target.value)}
+                                        onBlur={() => setExplorerSettings({ ...explorerSettings, customTemplate: templateInput.trim() })}
+                                        className="sage-input text-xs"
+                                        placeholder="https://example.com/tx/{signature}?cluster={cluster}"
+                                    />
+                                    <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">
+                                        {'{signature}'}, {'{cluster}'} and {'{customUrl}'} are filled in per transaction.
+                                    </p>
+                                </>
+                            )}
+                        </div>
+
+                        {history.length === 0 ? (
+                            <p className="font-mono text-sm text-[var(--sa-text-dim)]">No transactions sent yet.</p>
+                        ) : (
+                            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)]">
+                                {history.map(entry => (
+                                    <div key={entry.signature} className="px-3 py-2 space-y-1">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-mono text-sm text-[var(--sa-text)] font-bold">{entry.operation}</span>
+                                            <span className={`px-1.5 py-0.5 border font-mono text-xs uppercase tracking-wider ${STATUS_STYLES[entry.status]}`}>
+                                                {entry.status}
+                                            </span>
+                                        </div>
+                                        {entry.profile && (
+                                            <p className="font-mono text-xs text-[var(--sa-text-dim)]">
+                                                Profile: <span className="text-cyan-400" title={entry.profile}>{shortAddress(entry.profile)}</span>
+                                            </p>
+                                        )}
+                                        <div className="flex items-center justify-between gap-2">
+                                            {getExplorerUrl(entry) ? (
+                                                <a
+                                                    href={getExplorerUrl(entry)!}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    title={entry.signature}
+                                                    className="font-mono text-xs text-[var(--sa-accent)] hover:underline"
+                                                >
+                                                    {shortAddress(entry.signature)} →
+                                                </a>
+                                            ) : (
+                                                <span
+                                                    title={`${entry.signature}\nNo explorer link: the RPC URL may hold an API key`}
+                                                    className="font-mono text-xs text-[var(--sa-text)]"
+                                                >
+                                                    {shortAddress(entry.signature)}
+                                                </span>
+                                            )}
+                                            <span className="font-mono text-xs text-[var(--sa-text-dim)]">
+                                                {new Date(entry.sentAt).toLocaleString()}
+                                            </span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {history.length > 0 && (
+                            <div className="flex justify-end pt-4">
+                                <button onClick={clearHistory} className="sage-button-secondary px-4 py-2.5">
+                                    CLEAR HISTORY
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>,
+                document.body
+            )}
+        </>
+    );
+};
@@ -1,110 +1,240 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
 import { useRpcSettings } from './WalletContextProvider';
+import { useTransactionTracker } from './TransactionTracker';
+import { EndpointHealth } from '../utils/rpcEndpoints';
+
+const HealthStatus = ({ health }: { health?: EndpointHealth }) => {
+    if (!health) {
+        return <span className="font-mono text-xs text-[var(--sa-text-dim)]">Not checked</span>;
+    }
+    if (!health.healthy) {
+        return <span className="font-mono text-xs text-red-400" title={health.error || undefined}>Unhealthy{health.error ? `: ${health.error}` : ''}</span>;
+    }
+    return (
+        <span className="font-mono text-xs text-emerald-400">
+            Healthy · slot {health.slot?.toLocaleString() ?? '?'} · {health.latencyMs}ms
+        </span>
+    );
+};
 
 export const RpcSettings = () => {
-    const { rpcUrl, setRpcUrl, resetRpcUrl, isCustom } = useRpcSettings();
-    const [isOpen, setIsOpen] = useState(false);
-    const [inputValue, setInputValue] = useState(rpcUrl);
+    const {
+        network,
+        endpoints,
+        activeEndpoint,
+        addEndpoint,
+        removeEndpoint,
+        setPrimaryEndpoint,
+        health,
+        checkEndpoints,
+        lastFailover,
+        settingsOpen: isOpen,
+        setSettingsOpen: setIsOpen,
+    } = useRpcSettings();
+    const { notify } = useTransactionTracker();
+    const [nameInput, setNameInput] = useState('');
+    const [urlInput, setUrlInput] = useState('');
+    const [wsInput, setWsInput] = useState('');
+    const [checking, setChecking] = useState(false);
+
+    const primaryEndpoint = endpoints[0];
+    const isFailover = !!activeEndpoint && activeEndpoint.id !== primaryEndpoint?.id;
 
-    const handleSave = () => {
-        if (inputValue.trim()) {
-            setRpcUrl(inputValue.trim());
-            setIsOpen(false);
+    const handleCheck = async () => {
+        setChecking(true);
+        try {
+            await checkEndpoints();
+        } finally {
+            setChecking(false);
         }
     };
 
-    const handleReset = () => {
-        resetRpcUrl();
-        setIsOpen(false);
-    };
+    // Check health when opening, including when opened from an error message
+    useEffect(() => {
+        if (isOpen) handleCheck();
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (lastFailover) {
+            notify('error', `RPC ${lastFailover.from.name} failed (${lastFailover.reason}), switched to ${lastFailover.to.name}`);
+        }
+    }, [lastFailover, notify]);
 
-    // Sync input value when opening
-    const handleOpen = () => {
-        setInputValue(rpcUrl);
-        setIsOpen(true);
+    const handleAdd = () => {
+        const url = urlInput.trim();
+        let hostname: string;
+        try {
+            hostname = new URL(url).hostname;
+        } catch {
+            return;
+        }
+        addEndpoint(nameInput.trim() || hostname, url, wsInput.trim() || undefined);
+        setNameInput('');
+        setUrlInput('');
+        setWsInput('');
     };
 
     return (
         <>
-            <button 
-                onClick={handleOpen}
+            <button
+                onClick={() => setIsOpen(true)}
+                title={activeEndpoint ? `${activeEndpoint.name}: ${activeEndpoint.url}` : undefined}
                 className={`flex items-center gap-2 px-4 py-2.5 border font-mono text-sm font-bold uppercase tracking-wider transition-all ${
-                    isCustom 
-                        ? 'bg-amber-500/10 text-amber-400 border-amber-500/30 hover:bg-amber-500/20 hover:border-amber-500/50' 
+                    isFailover
+                        ? 'bg-amber-500/10 text-amber-400 border-amber-500/30 hover:bg-amber-500/20 hover:border-amber-500/50'
                         : 'bg-[var(--sa-dark)] text-[var(--sa-text-dim)] border-[var(--sa-border)] hover:text-[var(--sa-text)] hover:border-[var(--sa-accent)]'
                 }`}
             >
                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
                     <path fillRule="evenodd" d="M2 4.75A.75.75 0 012.75 4h14.5a.75.75 0 010 1.5H2.75A.75.75 0 012 4.75zm0 10.5a.75.75 0 01.75-.75h7.5a.75.75 0 010 1.5h-7.5a.75.75 0 01-.75-.75zM2 10a.75.75 0 01.75-.75h14.5a.75.75 0 010 1.5H2.75A.75.75 0 012 10z" clipRule="evenodd" />
                 </svg>
-                {isCustom ? 'CUSTOM RPC' : 'RPC'}
+                {isFailover ? 'FAILOVER RPC' : 'RPC'}
             </button>
 
-            {/* Full-screen modal instead of dropdown */}
-            {isOpen && (
-                <div 
-                    className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-[160px]"
+            {/* Full-screen modal instead of dropdown, portalled so it also stacks above other dialogs */}
+            {isOpen && createPortal(
+                <div
+                    className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-start justify-center z-[80] p-4 pt-[160px]"
                     onClick={(e) => {
                         if (e.target === e.currentTarget) {
                             setIsOpen(false);
                         }
                     }}
                 >
-                    <div className="sage-card p-6 w-full max-w-md border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-180px)] overflow-y-auto">
+                    <div className="sage-card p-6 w-full max-w-lg border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-180px)] overflow-y-auto">
                         <div className="flex items-center gap-2 mb-4">
                             <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">CONFIG</span>
-                            <h3 className="font-mono text-base font-bold tracking-wider text-[var(--sa-text)]">RPC CONNECTION</h3>
+                            <h3 className="font-mono text-base font-bold tracking-wider text-[var(--sa-text)]">RPC ENDPOINTS</h3>
                         </div>
                         <p className="font-mono text-sm text-[var(--sa-text-dim)] tracking-wide mb-4 leading-relaxed">
-                            If experiencing rate limits (403/429), use a custom RPC endpoint (Helius, QuickNode, Triton).
+                            Requests go to the primary endpoint. If it refuses them (403/429) or stops responding, the next healthy endpoint takes over.
+                            Add your own (Helius, QuickNode, Triton) to avoid public rate limits.
                         </p>
-                        
+
                         <div className="space-y-4">
                             <div>
-                                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">RPC Endpoint URL</label>
-                                <input 
-                                    type="text" 
-                                    value={inputValue}
-                                    onChange={(e) => setInputValue(e.target.value)}
-                                    className="sage-input"
-                                    placeholder="https://api.mainnet-beta.solana.com"
-                                />
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold">
+                                        {network.label} Endpoints
+                                    </label>
+                                    <button
+                                        onClick={handleCheck}
+                                        disabled={checking}
+                                        className="font-mono text-xs text-[var(--sa-accent)] hover:underline uppercase tracking-wider disabled:opacity-50"
+                                    >
+                                        {checking ? 'CHECKING...' : 'CHECK'}
+                                    </button>
+                                </div>
+                                {endpoints.length === 0 && (
+                                    <p className="font-mono text-xs text-amber-400 mb-2">
+                                        No endpoints saved for {network.label}. Add one below to connect to it.
+                                    </p>
+                                )}
+                                <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)]">
+                                    {endpoints.map(endpoint => {
+                                        const isPrimary = endpoint.id === primaryEndpoint?.id;
+                                        const isActive = endpoint.id === activeEndpoint?.id;
+                                        // A network keeps at least one endpoint once it has one
+                                        const canRemove = endpoints.length > 1;
+                                        return (
+                                            <div key={endpoint.id} className="px-3 py-2 space-y-1">
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <div className="flex items-center gap-2 min-w-0">
+                                                        <div className={`status-indicator ${isActive ? 'active' : ''}`}></div>
+                                                        <span className="font-mono text-sm text-[var(--sa-text)] font-bold truncate">{endpoint.name}</span>
+                                                        {isPrimary && (
+                                                            <span className="px-1.5 py-0.5 border font-mono text-xs uppercase tracking-wider text-[var(--sa-accent)] border-[var(--sa-accent)]/30">
+                                                                Primary
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                    <div className="flex items-center gap-3 shrink-0">
+                                                        {!isPrimary && (
+                                                            <button
+                                                                onClick={() => setPrimaryEndpoint(endpoint.id)}
+                                                                className="font-mono text-xs text-[var(--sa-text-dim)] hover:text-[var(--sa-accent)] uppercase tracking-wider"
+                                                            >
+                                                                SET PRIMARY
+                                                            </button>
+                                                        )}
+                                                        {canRemove && (
+                                                            <button
+                                                                onClick={() => removeEndpoint(endpoint.id)}
+                                                                className="font-mono text-xs text-[var(--sa-text-dim)] hover:text-red-400 uppercase tracking-wider"
+                                                            >
+                                                                REMOVE
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                                <p className="font-mono text-xs text-[var(--sa-text-dim)] break-all">{endpoint.url}</p>
+                                                {endpoint.wsUrl && (
+                                                    <p className="font-mono text-xs text-[var(--sa-text-dim)] break-all">WS: {endpoint.wsUrl}</p>
+                                                )}
+                                                <HealthStatus health={health[endpoint.id]} />
+                                            </div>
+                                        );
+                                    })}
+                                </div>
                             </div>
 
-                            {/* Current status */}
-                            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] p-3">
-                                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider mb-2">Current Status</label>
-                                <div className="flex items-center gap-2">
-                                    <div className={`status-indicator ${isCustom ? 'active' : ''}`} style={{ background: isCustom ? '#f59e0b' : undefined }}></div>
-                                    <span className={`font-mono text-sm ${isCustom ? 'text-amber-400' : 'text-[var(--sa-text-dim)]'}`}>
-                                        {isCustom ? 'Custom RPC Active' : 'Default RPC'}
-                                    </span>
+                            {isFailover && activeEndpoint && (
+                                <div className="bg-amber-500/10 border border-amber-500/30 p-3">
+                                    <p className="font-mono text-sm text-amber-400">
+                                        Failed over to {activeEndpoint.name}. Set a primary to switch back.
+                                    </p>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block font-mono text-sm text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">
+                                    Add {network.label} Endpoint
+                                </label>
+                                <div className="space-y-2">
+                                    <input
+                                        type="text"
+                                        value={nameInput}
+                                        onChange={(e) => setNameInput(e.target.value)}
+                                        className="sage-input"
+                                        placeholder="Name (optional)"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={urlInput}
+                                        onChange={(e) => setUrlInput(e.target.value)}
+                                        className="sage-input"
+                                        placeholder="https://api.mainnet-beta.solana.com"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={wsInput}
+                                        onChange={(e) => setWsInput(e.target.value)}
+                                        className="sage-input"
+                                        placeholder="WebSocket URL (optional, wss://...)"
+                                    />
                                 </div>
                             </div>
 
                             <div className="flex justify-end gap-3 pt-4 border-t border-[var(--sa-border)]">
-                                <button 
+                                <button
                                     onClick={() => setIsOpen(false)}
                                     className="sage-button-secondary px-4 py-2.5"
                                 >
-                                    CANCEL
-                                </button>
-                                <button 
-                                    onClick={handleReset}
-                                    className="sage-button-secondary px-4 py-2.5"
-                                >
-                                    RESET DEFAULT
+                                    CLOSE
                                 </button>
-                                <button 
-                                    onClick={handleSave}
-                                    className="sage-button px-4 py-2.5"
+                                <button
+                                    onClick={handleAdd}
+                                    disabled={!/^https?:\/\//.test(urlInput.trim())}
+                                    className="sage-button px-4 py-2.5 disabled:opacity-50"
                                 >
-                                    SAVE
+                                    ADD ENDPOINT
                                 </button>
                             </div>
                         </div>
                     </div>
-                </div>
+                </div>,
+                document.body
             )}
         </>
     );
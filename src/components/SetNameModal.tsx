@@ -0,0 +1,256 @@
+import { useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { LAMPORTS_PER_SOL, PublicKey, Transaction } from '@solana/web3.js';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { ixReturnsToIxs, walletToAsyncSigner } from '@staratlas/data-source';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { MAX_PROFILE_NAME_BYTES } from '../utils/constants';
+import { ErrorState, decodeError } from '../utils/errors';
+import { encodeProfileName, playerNameAccountSize, validateProfileName } from '../utils/playerName';
+import { applyPriorityFee } from '../utils/priorityFees';
+import { sendAndConfirm } from '../utils/sendTransaction';
+
+type SetNameStep = 'form' | 'preview' | 'complete';
+
+interface SetNamePreview {
+    transaction: Transaction;
+    name: string;
+    nameAccount: PublicKey;
+    bump: number;
+    accountSize: number;
+    rentExemptMinimum: number;
+    currentLamports: number;
+}
+
+interface SetNameModalProps {
+    profile: PlayerProfile;
+    program: PlayerProfileIDLProgram;
+    currentName: string | null;
+    onClose: () => void;
+    onNameSet: () => void;
+}
+
+const formatSol = (lamports: number) => `${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`;
+
+export const SetNameModal = ({ profile, program, currentName, onClose, onNameSet }: SetNameModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [step, setStep] = useState<SetNameStep>('form');
+    const [nameInput, setNameInput] = useState(currentName || '');
+    const [preview, setPreview] = useState<SetNamePreview | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const previewTransactions = useMemo(() => preview ? [preview.transaction] : [], [preview]);
+
+    const nameBytes = encodeProfileName(nameInput).length;
+    const validationError = nameInput ? validateProfileName(nameInput) : null;
+
+    const handleBuildPreview = async () => {
+        if (!wallet.publicKey) return;
+        setError(null);
+
+        const invalid = validateProfileName(nameInput);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        if (nameInput === currentName) {
+            setError('That is already the profile name');
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const asyncSigner = walletToAsyncSigner(wallet as any);
+            const { instructions: ixReturn, name: [nameAccount, bump] } = PlayerProfile.setName(
+                program,
+                {
+                    playerProfileProgram: program,
+                    profile,
+                    key: asyncSigner,
+                },
+                nameInput,
+            );
+            const instructions = await ixReturnsToIxs(ixReturn, asyncSigner);
+
+            const tx = new Transaction().add(...instructions);
+            tx.feePayer = wallet.publicKey;
+            await applyPriorityFee(connection, tx);
+
+            // The program resizes the account to fit the name, the funder covers any rent shortfall
+            const accountSize = playerNameAccountSize(nameInput);
+            const [rentExemptMinimum, currentLamports] = await Promise.all([
+                connection.getMinimumBalanceForRentExemption(accountSize),
+                connection.getBalance(nameAccount),
+            ]);
+
+            setPreview({ transaction: tx, name: nameInput, nameAccount, bump, accountSize, rentExemptMinimum, currentLamports });
+            setStep('preview');
+        } catch (e) {
+            console.error('Error building setName transaction:', e);
+            setError(decodeError(e, 'Failed to build transaction'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction || !preview) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            const tx = preview.transaction;
+            const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+            tx.recentBlockhash = blockhash;
+
+            const signed = await wallet.signTransaction(tx);
+            const sig = await sendAndConfirm(connection, signed, {
+                lastValidBlockHeight,
+                onStatus: trackStatus('Set Name', profile.key),
+            });
+            setSignature(sig);
+            setStep('complete');
+            onNameSet();
+        } catch (e) {
+            console.error('Error setting name:', e);
+            setError(decodeError(e, 'Failed to set name'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const renderForm = () => (
+        <>
+            <div className="mb-6">
+                <label className="block font-mono text-sm text-[var(--sa-accent)] uppercase tracking-wider font-bold mb-2">
+                    Profile Name
+                </label>
+                <input
+                    type="text"
+                    value={nameInput}
+                    onChange={(e) => { setNameInput(e.target.value); setError(null); }}
+                    className="sage-input"
+                    placeholder="Enter a name for the profile..."
+                />
+                <div className="flex justify-between gap-3 mt-1">
+                    <p className={`font-mono text-xs ${validationError ? 'text-amber-400' : 'text-[var(--sa-text-dim)]'}`}>
+                        {validationError || 'Stored on-chain as UTF-8 in the PlayerName account.'}
+                    </p>
+                    <p className={`font-mono text-xs shrink-0 ${nameBytes > MAX_PROFILE_NAME_BYTES ? 'text-red-400' : 'text-[var(--sa-text-dim)]'}`}>
+                        {nameBytes}/{MAX_PROFILE_NAME_BYTES} bytes
+                    </p>
+                </div>
+            </div>
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleBuildPreview}
+                    disabled={processing || !nameInput || !!validationError}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Building...' : 'Preview'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderPreview = () => {
+        if (!preview) return null;
+        const rentDue = Math.max(0, preview.rentExemptMinimum - preview.currentLamports);
+        const rows: [string, string][] = [
+            ['Account', preview.nameAccount.toBase58()],
+            ['Profile', profile.key.toBase58()],
+            ['Name', currentName ? `${currentName} → ${preview.name}` : preview.name],
+            ['Bump', String(preview.bump)],
+            ['Size', `${preview.accountSize} bytes (${encodeProfileName(preview.name).length} name bytes)`],
+            ['Rent Minimum', formatSol(preview.rentExemptMinimum)],
+            ['Current', preview.currentLamports > 0 ? formatSol(preview.currentLamports) : 'Account does not exist yet'],
+            ['Rent Cost', rentDue > 0 ? `${formatSol(rentDue)} paid by ${wallet.publicKey?.toBase58()}` : 'No additional rent needed'],
+        ];
+
+        return (
+            <>
+                <div className="bg-amber-500/10 border border-amber-500/30 p-4 mb-4">
+                    <p className="font-mono text-sm text-amber-300 tracking-wide leading-relaxed">
+                        <strong>→ REVIEW:</strong> This transaction calls <strong>setName</strong> and {currentName ? 'updates' : 'creates'} the
+                        profile's PlayerName account as shown below.
+                    </p>
+                </div>
+                <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                    {rows.map(([label, value]) => (
+                        <div key={label} className="flex gap-3 px-3 py-2">
+                            <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">{label}</span>
+                            <span className="font-mono text-xs text-[var(--sa-text)] break-all">{value}</span>
+                        </div>
+                    ))}
+                </div>
+                <TransactionPreview transactions={previewTransactions} program={program} />
+                {error && <ErrorNotice error={error} />}
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => { setStep('form'); setError(null); }}
+                        disabled={processing}
+                        className="sage-button-secondary px-5 py-2.5 disabled:opacity-50"
+                    >
+                        Back
+                    </button>
+                    <button
+                        onClick={handleSend}
+                        disabled={processing}
+                        className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {processing ? 'Sending...' : 'Sign & Send'}
+                    </button>
+                </div>
+            </>
+        );
+    };
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide leading-relaxed">
+                    The profile is now named <strong>{preview?.name}</strong>.
+                </p>
+                {signature && (
+                    <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
+                        {step === 'form' ? '0001.' : step === 'preview' ? '0002.' : '0003.'}
+                    </span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'form' ? (currentName ? 'RENAME PROFILE' : 'SET NAME') : step === 'preview' ? 'REVIEW NAME' : 'NAME SET'}
+                    </h3>
+                </div>
+                <div className="mb-4 p-2.5 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Profile: </span>
+                    <span className="font-mono text-xs text-cyan-400 break-all">{profile.key.toBase58()}</span>
+                </div>
+                {step === 'form' && renderForm()}
+                {step === 'preview' && renderPreview()}
+                {step === 'complete' && renderComplete()}
+            </div>
+        </div>
+    );
+};
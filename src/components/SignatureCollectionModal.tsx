@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { ErrorNotice } from './ErrorNotice';
+import { TransactionExport } from './TransactionExport';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { ErrorState, decodeError } from '../utils/errors';
+import { getDurableNonceInfo } from '../utils/nonce';
+import { getAuthKeys } from '../utils/profileKeys';
+import { sendAndConfirm } from '../utils/sendTransaction';
+import { getSignerStatuses, mergeSignatures, parsePartialTransaction } from '../utils/transactions';
+
+export interface SignatureSession {
+    transaction: Transaction; // Blockhash set, may already carry some signatures
+    profile: PlayerProfile;
+    operation: string;
+}
+
+interface SignatureCollectionModalProps extends SignatureSession {
+    program: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onComplete: () => void;
+}
+
+// How often the blockhash, or durable nonce, is checked while signatures are collected
+const VALIDITY_CHECK_INTERVAL_MS = 10_000;
+
+const serializePartial = (tx: Transaction) =>
+    tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+
+// Collects the signatures of several auth keys on one transaction, then broadcasts it
+export const SignatureCollectionModal = ({ transaction, profile, operation, program, onClose, onComplete }: SignatureCollectionModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [tx, setTx] = useState(transaction);
+    const [importInput, setImportInput] = useState('');
+    const [blockhashValid, setBlockhashValid] = useState<boolean | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+
+    // Signatures never change the message, so the preview decodes the original transaction once
+    const previewTransactions = useMemo(() => [transaction], [transaction]);
+    const nonceInfo = useMemo(() => getDurableNonceInfo(transaction), [transaction]);
+    const authKeys = useMemo(() => getAuthKeys(profile, program.programId), [profile, program]);
+
+    const checkValidity = useCallback(async (): Promise<boolean | null> => {
+        if (!transaction.recentBlockhash) return null;
+        try {
+            const valid = nonceInfo
+                ? (await connection.getNonce(nonceInfo.noncePubkey))?.nonce === transaction.recentBlockhash
+                : (await connection.isBlockhashValid(transaction.recentBlockhash)).value;
+            setBlockhashValid(valid);
+            return valid;
+        } catch (e) {
+            console.error('Failed to check blockhash validity:', e);
+            setBlockhashValid(null);
+            return null;
+        }
+    }, [connection, transaction, nonceInfo]);
+
+    // Checked on an interval, a blockhash expires while signatures are still being collected
+    useEffect(() => {
+        if (signature || blockhashValid === false) return;
+        checkValidity();
+        const interval = setInterval(checkValidity, VALIDITY_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [checkValidity, signature, blockhashValid]);
+
+    const signers = getSignerStatuses(tx);
+    const walletSigner = signers.find(s => wallet.publicKey && s.publicKey.equals(wallet.publicKey));
+    const allSigned = signers.every(s => s.signed);
+    const authSigners = signers.filter(s => authKeys.some(a => a.key.equals(s.publicKey)));
+    const signedAuthCount = authSigners.filter(s => s.signed).length;
+
+    const describeSigner = (s: { publicKey: PublicKey }) => {
+        const auth = authKeys.find(a => a.key.equals(s.publicKey));
+        if (auth) return `Auth #${auth.index}`;
+        if (tx.feePayer && s.publicKey.equals(tx.feePayer)) return 'Fee Payer';
+        return 'New Key';
+    };
+
+    const handleSign = async () => {
+        if (!wallet.signTransaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            const signed = await wallet.signTransaction(Transaction.from(tx.serialize({ requireAllSignatures: false, verifySignatures: false })));
+            setTx(mergeSignatures(tx, signed));
+        } catch (e) {
+            console.error('Error signing collected transaction:', e);
+            setError(decodeError(e, 'Failed to sign'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleImportSignatures = () => {
+        setError(null);
+        try {
+            const { transaction: copy } = parsePartialTransaction(importInput);
+            setTx(mergeSignatures(tx, copy));
+            setImportInput('');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleBroadcast = async () => {
+        setProcessing(true);
+        setError(null);
+        try {
+            if (await checkValidity() === false) return;
+            const sig = await sendAndConfirm(connection, tx, { onStatus: trackStatus(operation, profile.key) });
+            console.log('Collected transaction confirmed:', sig);
+            setSignature(sig);
+            onComplete();
+        } catch (e) {
+            console.error('Error broadcasting collected transaction:', e);
+            setError(decodeError(e, 'Failed to broadcast'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const renderCollect = () => (
+        <>
+            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                <div className="flex gap-3 px-3 py-2">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Threshold</span>
+                    <span className={`font-mono text-xs ${signedAuthCount >= profile.data.keyThreshold ? 'text-emerald-400' : 'text-amber-400'}`}>
+                        {signedAuthCount} of {profile.data.keyThreshold} auth signatures
+                    </span>
+                </div>
+                {signers.map(s => (
+                    <div key={s.publicKey.toBase58()} className="flex items-center gap-3 px-3 py-2">
+                        <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">{describeSigner(s)}</span>
+                        <span className="font-mono text-xs text-[var(--sa-text)] break-all flex-1">{s.publicKey.toBase58()}</span>
+                        <span className={`font-mono text-xs uppercase tracking-wider ${s.signed ? 'text-emerald-400' : 'text-amber-400'}`}>
+                            {s.signed ? 'Signed' : 'Pending'}
+                        </span>
+                    </div>
+                ))}
+                <div className="flex gap-3 px-3 py-2">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">{nonceInfo ? 'Nonce' : 'Blockhash'}</span>
+                    <span className={`font-mono text-xs break-all ${blockhashValid === false ? 'text-red-400' : 'text-[var(--sa-text)]'}`}>
+                        {tx.recentBlockhash}
+                        {blockhashValid === false && (nonceInfo ? ' (advanced)' : ' (expired)')}
+                    </span>
+                </div>
+            </div>
+
+            {!allSigned && (
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] mb-4 leading-relaxed">
+                    Switch the connected wallet to each pending signer and sign here, or export the transaction to another
+                    device, sign it there with IMPORT TX and paste the signed copy back below.
+                    {!nonceInfo && ' Without a durable nonce all signatures must be collected within about a minute.'}
+                </p>
+            )}
+
+            {blockhashValid === false && (
+                <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4">
+                    <p className="font-mono text-xs text-red-400">
+                        This transaction can no longer land. Close this window and start the operation again.
+                    </p>
+                </div>
+            )}
+
+            {!allSigned && (
+                <>
+                    <TransactionExport serializedTx={serializePartial(tx)} operation={operation} profileKey={profile.key.toBase58()} durableNonce={!!nonceInfo} />
+                    <div className="mb-4">
+                        <label className="block font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider font-bold mb-2">Add Signatures From a Signed Copy</label>
+                        <textarea
+                            value={importInput}
+                            onChange={(e) => { setImportInput(e.target.value); setError(null); }}
+                            className="sage-input text-xs h-20 resize-none break-all mb-2"
+                            placeholder="Base64 transaction or exported JSON..."
+                        />
+                        <button
+                            onClick={handleImportSignatures}
+                            disabled={!importInput.trim()}
+                            className="sage-button-secondary py-2 px-4 disabled:opacity-50"
+                        >
+                            ADD SIGNATURES
+                        </button>
+                    </div>
+                </>
+            )}
+
+            <TransactionPreview transactions={previewTransactions} program={program} />
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} disabled={processing} className="sage-button-secondary px-5 py-2.5 disabled:opacity-50">
+                    Cancel
+                </button>
+                {allSigned ? (
+                    <button
+                        onClick={handleBroadcast}
+                        disabled={processing || blockhashValid === false}
+                        className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {processing ? 'Sending...' : 'Broadcast'}
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleSign}
+                        disabled={processing || !walletSigner || walletSigner.signed || blockhashValid === false}
+                        className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {processing ? 'Signing...' : walletSigner && !walletSigner.signed ? 'Sign With Connected Wallet' : 'Connected Wallet Not Pending'}
+                    </button>
+                )}
+            </div>
+        </>
+    );
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide">
+                    All {signers.length} signatures collected and the transaction was confirmed.
+                </p>
+                <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-2xl w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-4">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">MULTISIG</span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {signature ? 'CONFIRMED' : 'COLLECT SIGNATURES'}
+                    </h3>
+                </div>
+                <div className="mb-4 p-2.5 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">{operation} · Profile: </span>
+                    <span className="font-mono text-xs text-cyan-400 break-all">{profile.key.toBase58()}</span>
+                </div>
+                {signature ? renderComplete() : renderCollect()}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,275 @@
+import { useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { walletToAsyncSigner } from '@staratlas/data-source';
+import { CoSignerPicker } from './CoSignerPicker';
+import { ErrorNotice } from './ErrorNotice';
+import { NonceAccountPicker } from './NonceAccountPicker';
+import { SignatureSession } from './SignatureCollectionModal';
+import { TransactionPreview } from './TransactionPreview';
+import { useTransactionTracker } from './TransactionTracker';
+import { buildAdjustAuthInstructions } from '../utils/adjustAuth';
+import { ErrorState, decodeError } from '../utils/errors';
+import { getDurableNonceInfo, getNonceAdvance } from '../utils/nonce';
+import { applyPriorityFee } from '../utils/priorityFees';
+import { getAuthKeys } from '../utils/profileKeys';
+import { sendAndConfirm } from '../utils/sendTransaction';
+
+type ThresholdStep = 'form' | 'preview' | 'complete';
+
+interface ThresholdEditorModalProps {
+    profile: PlayerProfile;
+    program: PlayerProfileIDLProgram;
+    onClose: () => void;
+    onUpdated: () => void;
+    onCollectSignatures: (session: SignatureSession) => void;
+}
+
+export const ThresholdEditorModal = ({ profile, program, onClose, onUpdated, onCollectSignatures }: ThresholdEditorModalProps) => {
+    const { connection } = useConnection();
+    const wallet = useWallet();
+    const { trackStatus } = useTransactionTracker();
+    const [step, setStep] = useState<ThresholdStep>('form');
+    const [thresholdInput, setThresholdInput] = useState(String(profile.data.keyThreshold));
+    const [coSigners, setCoSigners] = useState<string[]>([]);
+    // Lets co-signers on other devices take longer than a blockhash lasts
+    const [nonceAccount, setNonceAccount] = useState<string | null>(null);
+    const [transaction, setTransaction] = useState<Transaction | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<ErrorState | null>(null);
+    const previewTransactions = useMemo(() => transaction ? [transaction] : [], [transaction]);
+
+    const currentThreshold = profile.data.keyThreshold;
+    const authKeyCount = getAuthKeys(profile, program.programId).length;
+    const newThreshold = Number(thresholdInput);
+    const validNumber = Number.isInteger(newThreshold) && newThreshold >= 1;
+    const locksProfile = validNumber && newThreshold > authKeyCount;
+    const needsEveryKey = validNumber && newThreshold === authKeyCount && authKeyCount > 1;
+
+    const handleBuildPreview = async () => {
+        if (!wallet.publicKey) return;
+        setError(null);
+
+        if (!validNumber) {
+            setError('Threshold must be a whole number of at least 1');
+            return;
+        }
+        if (locksProfile) {
+            setError(`A threshold of ${newThreshold} with ${authKeyCount} auth keys would lock the profile`);
+            return;
+        }
+        if (newThreshold === currentThreshold) {
+            setError('That is already the threshold');
+            return;
+        }
+        if (coSigners.length !== currentThreshold - 1) {
+            setError(`Select ${currentThreshold - 1} co-signing auth ${currentThreshold - 1 === 1 ? 'key' : 'keys'}`);
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const instructions = await buildAdjustAuthInstructions(program, profile, walletToAsyncSigner(wallet as any), {
+                coSigners: coSigners.map(k => new PublicKey(k)),
+                newAuthKeys: [],
+                removeIndexes: [],
+                newKeyThreshold: newThreshold,
+            });
+            const tx = new Transaction();
+            if (nonceAccount) {
+                const signers = [wallet.publicKey, ...coSigners.map(k => new PublicKey(k))];
+                const { instruction, nonce } = await getNonceAdvance(connection, new PublicKey(nonceAccount), signers);
+                tx.add(instruction);
+                tx.recentBlockhash = nonce;
+            }
+            tx.add(...instructions);
+            tx.feePayer = wallet.publicKey;
+            await applyPriorityFee(connection, tx);
+            setTransaction(tx);
+            setStep('preview');
+        } catch (e) {
+            console.error('Error building adjustAuth transaction:', e);
+            setError(decodeError(e, 'Failed to build transaction'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!wallet.publicKey || !wallet.signTransaction || !transaction) return;
+        setProcessing(true);
+        setError(null);
+        try {
+            // A durable nonce transaction already carries its nonce in place of the blockhash
+            let lastValidBlockHeight: number | undefined;
+            if (!getDurableNonceInfo(transaction)) {
+                const latest = await connection.getLatestBlockhash();
+                transaction.recentBlockhash = latest.blockhash;
+                lastValidBlockHeight = latest.lastValidBlockHeight;
+            }
+
+            if (coSigners.length > 0) {
+                onCollectSignatures({ transaction, profile, operation: 'adjustAuth' });
+                onClose();
+                return;
+            }
+
+            const signed = await wallet.signTransaction(transaction);
+            const sig = await sendAndConfirm(connection, signed, {
+                lastValidBlockHeight,
+                onStatus: trackStatus('Change Threshold', profile.key),
+            });
+            setSignature(sig);
+            setStep('complete');
+            onUpdated();
+        } catch (e) {
+            console.error('Error changing threshold:', e);
+            setError(decodeError(e, 'Failed to change threshold'));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const renderForm = () => (
+        <>
+            <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)] mb-4">
+                <div className="flex gap-3 px-3 py-2">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Current</span>
+                    <span className="font-mono text-xs text-[var(--sa-text)]">{currentThreshold} of {authKeyCount} auth keys</span>
+                </div>
+            </div>
+
+            <div className="mb-4">
+                <label className="block font-mono text-sm text-[var(--sa-accent)] uppercase tracking-wider font-bold mb-2">New Threshold</label>
+                <input
+                    type="number"
+                    min={1}
+                    max={authKeyCount}
+                    value={thresholdInput}
+                    onChange={(e) => { setThresholdInput(e.target.value); setError(null); }}
+                    className="sage-input"
+                />
+                <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-1">
+                    Number of auth key signatures every future auth change needs, between 1 and {authKeyCount}.
+                </p>
+            </div>
+
+            {locksProfile && (
+                <div className="bg-red-500/15 border-2 border-red-500 p-4 mb-4">
+                    <p className="font-mono text-sm text-red-400 font-bold uppercase tracking-wider mb-1">⚠ This would lock the profile</p>
+                    <p className="font-mono text-xs text-red-300 leading-relaxed">
+                        {newThreshold} signatures would be required but the profile only has {authKeyCount} auth{' '}
+                        {authKeyCount === 1 ? 'key' : 'keys'}. No auth change could ever be signed again. Add auth keys first.
+                    </p>
+                </div>
+            )}
+            {needsEveryKey && (
+                <div className="bg-amber-500/10 border-2 border-amber-500/60 p-4 mb-4">
+                    <p className="font-mono text-sm text-amber-300 font-bold uppercase tracking-wider mb-1">⚠ Every auth key must sign</p>
+                    <p className="font-mono text-xs text-amber-300/90 leading-relaxed">
+                        With a threshold equal to the auth key count, losing access to any single auth key locks the profile's
+                        auth settings permanently.
+                    </p>
+                </div>
+            )}
+
+            {currentThreshold > 1 && wallet.publicKey && (
+                <CoSignerPicker
+                    profile={profile}
+                    program={program}
+                    signer={wallet.publicKey.toBase58()}
+                    selected={coSigners}
+                    onChange={(selected) => { setCoSigners(selected); setError(null); }}
+                />
+            )}
+            {currentThreshold > 1 && (
+                <NonceAccountPicker selected={nonceAccount} onChange={(address) => { setNonceAccount(address); setError(null); }} />
+            )}
+
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} className="sage-button-secondary px-5 py-2.5">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleBuildPreview}
+                    disabled={processing || !validNumber || locksProfile}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Building...' : 'Preview'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderPreview = () => (
+        <>
+            <div className="bg-amber-500/10 border border-amber-500/30 p-4 mb-4">
+                <p className="font-mono text-sm text-amber-300 tracking-wide leading-relaxed">
+                    <strong>→ REVIEW:</strong> This transaction calls <strong>adjustAuth</strong> and changes the threshold from{' '}
+                    <strong>{currentThreshold}</strong> to <strong>{newThreshold}</strong>.
+                </p>
+            </div>
+            <TransactionPreview transactions={previewTransactions} program={program} />
+            {error && <ErrorNotice error={error} />}
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={() => { setStep('form'); setError(null); }}
+                    disabled={processing}
+                    className="sage-button-secondary px-5 py-2.5 disabled:opacity-50"
+                >
+                    Back
+                </button>
+                <button
+                    onClick={handleSend}
+                    disabled={processing}
+                    className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {processing ? 'Sending...' : coSigners.length > 0 ? 'Collect Signatures' : 'Sign & Send'}
+                </button>
+            </div>
+        </>
+    );
+
+    const renderComplete = () => (
+        <>
+            <div className="bg-emerald-500/10 border border-emerald-500/30 p-4 mb-6">
+                <p className="font-mono text-sm text-emerald-400 tracking-wide leading-relaxed">
+                    The key threshold is now <strong>{newThreshold}</strong>.
+                </p>
+                {signature && (
+                    <p className="font-mono text-xs text-emerald-400/70 mt-2 break-all">Signature: {signature}</p>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="sage-button">
+                    Done
+                </button>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="sage-card p-6 max-w-lg w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-6">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">
+                        {step === 'form' ? '0001.' : step === 'preview' ? '0002.' : '0003.'}
+                    </span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {step === 'form' ? 'KEY THRESHOLD' : step === 'preview' ? 'REVIEW THRESHOLD' : 'THRESHOLD CHANGED'}
+                    </h3>
+                </div>
+                <div className="mb-4 p-2.5 bg-[var(--sa-dark)] border border-[var(--sa-border)]">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Profile: </span>
+                    <span className="font-mono text-xs text-cyan-400 break-all">{profile.key.toBase58()}</span>
+                </div>
+                {step === 'form' && renderForm()}
+                {step === 'preview' && renderPreview()}
+                {step === 'complete' && renderComplete()}
+            </div>
+        </div>
+    );
+};
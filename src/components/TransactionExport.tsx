@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { createPartialTransactionExport } from '../utils/transactions';
+import { useTransactionTracker } from './TransactionTracker';
+
+interface TransactionExportProps {
+    serializedTx: string; // Base64 encoded, partially signed
+    operation: string;
+    profileKey: string;
+    durableNonce?: boolean;
+}
+
+export const TransactionExport = ({ serializedTx, operation, profileKey, durableNonce = false }: TransactionExportProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const { notify } = useTransactionTracker();
+
+    useEffect(() => {
+        if (!isOpen) return;
+        QRCode.toDataURL(serializedTx, { errorCorrectionLevel: 'L', margin: 1, width: 280 })
+            .then(setQrDataUrl)
+            .catch(e => {
+                console.error('Failed to render QR code:', e);
+                setQrDataUrl(null);
+            });
+    }, [isOpen, serializedTx]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(serializedTx);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (e) {
+            // Clipboard access is denied outside secure contexts or without permission
+            console.error('Failed to copy transaction:', e);
+            notify('error', 'Could not copy to the clipboard. Download the file instead.');
+        }
+    };
+
+    const handleDownload = () => {
+        const data = createPartialTransactionExport(serializedTx, operation, profileKey);
+        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${operation}-${profileKey.slice(0, 8)}.json`;
+        link.click();
+        // Revoking right away can cancel the download before it starts
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+    };
+
+    return (
+        <div className="mb-4">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-2 font-mono text-xs text-[var(--sa-text-dim)] hover:text-[var(--sa-text)] transition-colors uppercase tracking-wider"
+            >
+                <svg
+                    className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+                <span>Sign on another device</span>
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 p-3 bg-[var(--sa-dark)] border border-[var(--sa-border)] space-y-3">
+                    <p className="font-mono text-xs text-[var(--sa-text-dim)] leading-relaxed">
+                        Export the partially signed transaction and open it with <strong>IMPORT TX</strong> on the device holding a pending signer's wallet.
+                        {durableNonce
+                            ? ' It uses a durable nonce and stays valid until the nonce account is advanced or closed.'
+                            : ' It must still be broadcast before its blockhash expires.'}
+                    </p>
+                    {qrDataUrl && (
+                        <div className="flex justify-center">
+                            <img src={qrDataUrl} alt="Partially signed transaction QR code" className="border border-[var(--sa-border)] bg-white p-1" />
+                        </div>
+                    )}
+                    <textarea
+                        readOnly
+                        value={serializedTx}
+                        onFocus={(e) => e.target.select()}
+                        className="sage-input text-xs h-20 resize-none break-all"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button onClick={handleCopy} className="sage-button-secondary px-3 py-1.5 text-xs">
+                            {copied ? 'COPIED' : 'COPY BASE64'}
+                        </button>
+                        <button onClick={handleDownload} className="sage-button-secondary px-3 py-1.5 text-xs">
+                            DOWNLOAD FILE
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
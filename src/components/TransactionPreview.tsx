@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { LAMPORTS_PER_SOL, PublicKey, Transaction } from '@solana/web3.js';
+import { PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import {
+    DecodedKeyEntry,
+    DecodedTransaction,
+    ProfileSnapshot,
+    decodeTransactions,
+    loadProfileSnapshots,
+} from '../utils/decodeTransaction';
+import { decodeError, formatError } from '../utils/errors';
+import { RawPermissions, describePermissions, getPermissionScope } from '../utils/permissions';
+import { estimateTransactionFee } from '../utils/priorityFees';
+
+interface TransactionPreviewProps {
+    transactions: Transaction[];
+    program?: PlayerProfileIDLProgram;
+}
+
+const shortKey = (key: PublicKey) => {
+    const base58 = key.toBase58();
+    return `${base58.slice(0, 4)}...${base58.slice(-4)}`;
+};
+
+const formatSol = (lamports: number) => `${(lamports / LAMPORTS_PER_SOL).toFixed(9)} SOL`;
+
+export const TransactionPreview = ({ transactions, program }: TransactionPreviewProps) => {
+    const { connection } = useConnection();
+    const [decoded, setDecoded] = useState<DecodedTransaction[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fees = useMemo(() => transactions.map(estimateTransactionFee), [transactions]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setDecoded(null);
+        setError(null);
+        const load = program
+            ? loadProfileSnapshots(connection, program, transactions)
+            : Promise.resolve(new Map<string, ProfileSnapshot | null>());
+        load
+            .then(snapshots => {
+                if (!cancelled) setDecoded(decodeTransactions(transactions, program, snapshots));
+            })
+            .catch(e => {
+                console.error('Failed to decode transaction:', e);
+                if (!cancelled) {
+                    setError(formatError(decodeError(e, 'Failed to load profile state')));
+                    setDecoded(decodeTransactions(transactions, program, new Map()));
+                }
+            });
+        return () => { cancelled = true; };
+    }, [connection, program, transactions]);
+
+    const describeEntry = (entry: DecodedKeyEntry) => {
+        const scope = program ? getPermissionScope(entry.scope, program.programId) : null;
+        // Scopes without flag names read better as the raw bitmask than as a list of bit numbers
+        const labels = scope && scope.flags.length > 0 ? describePermissions(entry.permissions, scope) : [];
+        return {
+            permissions: labels.length > 0 ? labels.join(', ') : RawPermissions.fromPermissions(entry.permissions).toHex(),
+            scope: scope ? scope.name : shortKey(entry.scope),
+            expiry: entry.expireTime === null ? 'Never' : new Date(entry.expireTime * 1000).toLocaleString(),
+        };
+    };
+
+    const renderEntry = (entry: DecodedKeyEntry, variant: 'added' | 'removed' | 'kept', index?: number) => {
+        const { permissions, scope, expiry } = describeEntry(entry);
+        const color = variant === 'added' ? 'text-emerald-400' : variant === 'removed' ? 'text-red-400 line-through' : 'text-[var(--sa-text)]';
+        return (
+            <div key={`${variant}-${index ?? ''}-${entry.key.toBase58()}`} className="px-3 py-1.5">
+                <p className={`font-mono text-xs break-all ${color}`}>
+                    {index !== undefined && <span className="text-[var(--sa-text-dim)]">#{index} </span>}
+                    {variant === 'added' && '+ '}
+                    {variant === 'removed' && '− '}
+                    {entry.key.toBase58()}
+                </p>
+                <p className="font-mono text-xs text-[var(--sa-text-dim)]">
+                    {permissions} · Scope: {scope} · Expires: {expiry}
+                </p>
+            </div>
+        );
+    };
+
+    if (!decoded) {
+        return <p className="font-mono text-sm text-[var(--sa-text-dim)] mb-4">Decoding transaction...</p>;
+    }
+
+    return (
+        <div className="space-y-4 mb-4">
+            {error && (
+                <div className="bg-amber-500/10 border border-amber-500/30 p-3">
+                    <p className="font-mono text-xs text-amber-300">{error}</p>
+                </div>
+            )}
+            {decoded.map((tx, txIndex) => (
+                <div key={txIndex} className="space-y-3">
+                    {decoded.length > 1 && (
+                        <p className="font-mono text-xs text-[var(--sa-accent)] uppercase tracking-wider font-bold">
+                            Transaction {txIndex + 1} of {decoded.length}
+                        </p>
+                    )}
+
+                    <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)]">
+                        {tx.instructions.map((ix, i) => (
+                            <div key={i} className="px-3 py-2">
+                                <p className="font-mono text-xs text-[var(--sa-text)] font-bold">
+                                    {i + 1}. {ix.name}
+                                    <span className="text-[var(--sa-text-dim)] font-normal"> · {ix.programName}</span>
+                                </p>
+                                {ix.args.map(([label, value]) => (
+                                    <p key={label} className="font-mono text-xs text-[var(--sa-text-dim)] break-all">
+                                        {label}: <span className="text-[var(--sa-text)]">{value}</span>
+                                    </p>
+                                ))}
+                                {ix.name === 'Unknown' && (
+                                    <p className="font-mono text-xs text-amber-400">Could not decode · {ix.accounts.length} accounts</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    {tx.profiles.map(outcome => (
+                        <div key={outcome.profile.toBase58()} className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)]">
+                            <div className="flex gap-3 px-3 py-2">
+                                <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Profile</span>
+                                <span className="font-mono text-xs text-cyan-400 break-all">{outcome.profile.toBase58()}</span>
+                            </div>
+                            {outcome.keysRemoved.length > 0 && (
+                                <div className="py-1">
+                                    <p className="px-3 pt-1 font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Keys Removed</p>
+                                    {outcome.keysRemoved.map(entry => renderEntry(entry, 'removed'))}
+                                </div>
+                            )}
+                            {outcome.keysAdded.length > 0 && (
+                                <div className="py-1">
+                                    <p className="px-3 pt-1 font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">Keys Added</p>
+                                    {outcome.keysAdded.map(entry => renderEntry(entry, 'added'))}
+                                </div>
+                            )}
+                            {outcome.after && (
+                                <div className="py-1">
+                                    <p className="px-3 pt-1 font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider">
+                                        Resulting Keys ({outcome.after.keys.length})
+                                    </p>
+                                    {outcome.after.keys.map((entry, i) => renderEntry(
+                                        entry,
+                                        outcome.keysAdded.includes(entry) ? 'added' : 'kept',
+                                        i
+                                    ))}
+                                </div>
+                            )}
+                            <div className="flex gap-3 px-3 py-2">
+                                <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Threshold</span>
+                                <span className="font-mono text-xs text-[var(--sa-text)]">
+                                    {outcome.before && outcome.after && outcome.before.keyThreshold !== outcome.after.keyThreshold
+                                        ? `${outcome.before.keyThreshold} → ${outcome.after.keyThreshold}`
+                                        : outcome.after?.keyThreshold ?? outcome.before?.keyThreshold ?? 'Unknown'}
+                                    {outcome.after && ` of ${outcome.after.authKeyCount} auth keys`}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+
+                    <div className="bg-[var(--sa-black)] border border-[var(--sa-border)] divide-y divide-[var(--sa-border)]">
+                        <div className="flex gap-3 px-3 py-2">
+                            <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Fee Payer</span>
+                            <span className="font-mono text-xs text-[var(--sa-text)] break-all">{tx.feePayer?.toBase58() || 'Not set'}</span>
+                        </div>
+                        <div className="flex gap-3 px-3 py-2">
+                            <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Compute</span>
+                            <span className="font-mono text-xs text-[var(--sa-text)]">
+                                {fees[txIndex].computeUnitLimit.toLocaleString()} CU @ {fees[txIndex].microLamports.toLocaleString()} micro-lamports
+                            </span>
+                        </div>
+                        <div className="flex gap-3 px-3 py-2">
+                            <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Est. Fee</span>
+                            <span className="font-mono text-xs text-[var(--sa-text)]">
+                                {formatSol(fees[txIndex].total)}
+                                <span className="text-[var(--sa-text-dim)]">
+                                    {' '}(base {formatSol(fees[txIndex].baseFee)} for {fees[txIndex].signatures} signatures + priority {formatSol(fees[txIndex].priorityFee)})
+                                </span>
+                            </span>
+                        </div>
+                        {tx.signers.map(s => (
+                            <div key={s.publicKey.toBase58()} className="flex items-center gap-3 px-3 py-2">
+                                <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Signer</span>
+                                <span className="font-mono text-xs text-[var(--sa-text)] break-all flex-1">{s.publicKey.toBase58()}</span>
+                                <span className={`font-mono text-xs uppercase tracking-wider ${s.signed ? 'text-emerald-400' : 'text-amber-400'}`}>
+                                    {s.signed ? 'Signed' : 'Pending'}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ))}
+            {decoded.length > 1 && (
+                <div className="flex gap-3 px-3 py-2 bg-[var(--sa-black)] border border-[var(--sa-border)]">
+                    <span className="font-mono text-xs text-[var(--sa-text-dim)] uppercase tracking-wider w-28 shrink-0">Total Fee</span>
+                    <span className="font-mono text-xs text-[var(--sa-text)]">
+                        {formatSol(fees.reduce((sum, fee) => sum + fee.total, 0))} across {decoded.length} transactions
+                    </span>
+                </div>
+            )}
+        </div>
+    );
+};
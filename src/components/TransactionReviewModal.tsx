@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { Transaction } from '@solana/web3.js';
+import { PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { decodeError, formatError } from '../utils/errors';
+import { SimulationOutcome, simulateTransaction } from '../utils/simulation';
+import { TransactionPreview } from './TransactionPreview';
+
+interface TransactionReviewModalProps {
+    transactions: Transaction[];
+    program?: PlayerProfileIDLProgram;
+    simulate?: boolean;
+    onApprove: () => void;
+    onCancel: () => void;
+}
+
+// Shown before the wallet is asked to sign, so the user knows what the wallet popup contains
+export const TransactionReviewModal = ({ transactions, program, simulate = false, onApprove, onCancel }: TransactionReviewModalProps) => {
+    const { connection } = useConnection();
+    const [simulation, setSimulation] = useState<SimulationOutcome | null>(null);
+    const [simulationError, setSimulationError] = useState<string | null>(null);
+    const [showLogs, setShowLogs] = useState(false);
+    const [override, setOverride] = useState(false);
+
+    // Later transactions of a batch depend on earlier ones landing, so only the first is simulated
+    useEffect(() => {
+        if (!simulate || transactions.length === 0) return;
+        let cancelled = false;
+        simulateTransaction(connection, transactions[0])
+            .then(outcome => {
+                if (!cancelled) setSimulation(outcome);
+            })
+            .catch(e => {
+                console.error('Simulation request failed:', e);
+                if (!cancelled) setSimulationError(formatError(decodeError(e, 'Simulation request failed')));
+            });
+        return () => { cancelled = true; };
+    }, [connection, simulate, transactions]);
+
+    const simulationPending = simulate && !simulation && !simulationError;
+    const simulationFailed = simulation !== null && !simulation.success;
+    const blocked = simulationPending || (simulationFailed && !override);
+
+    const renderSimulation = () => {
+        if (!simulate) return null;
+        if (simulationPending) {
+            return <p className="font-mono text-sm text-[var(--sa-text-dim)] mb-4">Simulating transaction...</p>;
+        }
+        if (simulationError) {
+            return (
+                <div className="bg-amber-500/10 border border-amber-500/30 p-3 mb-4">
+                    <p className="font-mono text-xs text-amber-300">{simulationError}</p>
+                </div>
+            );
+        }
+        if (!simulation) return null;
+        const failure = simulation.success ? null : decodeError({ message: simulation.error, logs: simulation.logs });
+
+        return (
+            <div className={`${simulation.success ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-red-500/10 border-red-500/30'} border p-3 mb-4`}>
+                <p className={`font-mono text-sm font-bold ${simulation.success ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {simulation.success ? 'Simulation succeeded' : 'Simulation failed'}
+                    {simulation.unitsConsumed !== null && (
+                        <span className="font-normal text-[var(--sa-text-dim)]"> · {simulation.unitsConsumed.toLocaleString()} compute units</span>
+                    )}
+                </p>
+                {simulation.anchorError && (
+                    <p className="font-mono text-xs text-red-400 mt-2 break-all">
+                        {simulation.anchorError.code} ({simulation.anchorError.number}): {simulation.anchorError.message}
+                    </p>
+                )}
+                {failure && !simulation.anchorError && (
+                    <p className="font-mono text-xs text-red-400 mt-2 break-all">{failure.message}</p>
+                )}
+                {failure?.fix && (
+                    <p className="font-mono text-xs text-red-300/80 mt-1.5 leading-relaxed">→ {failure.fix}</p>
+                )}
+                {transactions.length > 1 && (
+                    <p className="font-mono text-xs text-[var(--sa-text-dim)] mt-2">
+                        Only the first transaction was simulated; the others depend on it landing first.
+                    </p>
+                )}
+                {simulation.logs.length > 0 && (
+                    <>
+                        <button
+                            onClick={() => setShowLogs(!showLogs)}
+                            className="mt-2 font-mono text-xs text-[var(--sa-text-dim)] hover:text-[var(--sa-text)] uppercase tracking-wider"
+                        >
+                            {showLogs ? 'Hide' : 'Show'} program logs ({simulation.logs.length})
+                        </button>
+                        {showLogs && (
+                            <pre className="mt-2 p-2 bg-[var(--sa-black)] border border-[var(--sa-border)] font-mono text-[10px] text-[var(--sa-text-dim)] whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                                {simulation.logs.join('\n')}
+                            </pre>
+                        )}
+                    </>
+                )}
+                {!simulation.success && (
+                    <label className="flex items-start gap-2 mt-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={override}
+                            onChange={(e) => setOverride(e.target.checked)}
+                            className="mt-0.5 accent-[var(--sa-accent)]"
+                        />
+                        <span className="font-mono text-xs text-red-300">
+                            I understand this transaction is expected to fail and still want to sign it.
+                        </span>
+                    </label>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[70] p-4">
+            <div className="sage-card p-6 max-w-2xl w-full border-[rgb(var(--sa-accent-rgb-space))]/30 max-h-[calc(100vh-2rem)] overflow-y-auto">
+                <div className="flex items-center gap-3 mb-4">
+                    <span className="font-mono text-sm text-[var(--sa-accent)] font-bold tracking-wider">REVIEW</span>
+                    <h3 className="font-mono text-xl font-bold tracking-wider text-[var(--sa-text)]">
+                        {transactions.length > 1 ? `${transactions.length} TRANSACTIONS` : 'TRANSACTION'}
+                    </h3>
+                </div>
+                <p className="font-mono text-sm text-[var(--sa-text-dim)] tracking-wide mb-4 leading-relaxed">
+                    Check the decoded instructions and the resulting key list before your wallet asks for a signature.
+                </p>
+                {renderSimulation()}
+                <TransactionPreview transactions={transactions} program={program} />
+                <div className="flex justify-end gap-3 pt-4 border-t border-[var(--sa-border)]">
+                    <button onClick={onCancel} className="sage-button-secondary px-5 py-2.5">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={onApprove}
+                        disabled={blocked}
+                        className="sage-button disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {simulationPending ? 'Simulating...' : simulationFailed ? 'Sign Anyway' : 'Continue to Wallet'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface ReviewOptions {
+    simulate?: boolean;
+}
+
+interface PendingReview extends ReviewOptions {
+    transactions: Transaction[];
+    resolve: (approved: boolean) => void;
+}
+
+// Lets a handler await the user's decision on the review modal before prompting the wallet
+export const useTransactionReview = () => {
+    const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+    // Read on unmount, so a handler awaiting the review is never left hanging
+    const pendingRef = useRef<PendingReview | null>(null);
+    pendingRef.current = pendingReview;
+
+    useEffect(() => () => pendingRef.current?.resolve(false), []);
+
+    const reviewTransactions = (transactions: Transaction[], options: ReviewOptions = {}) =>
+        new Promise<boolean>(resolve => setPendingReview({ transactions, resolve, ...options }));
+
+    const closeReview = (approved: boolean) => {
+        pendingReview?.resolve(approved);
+        setPendingReview(null);
+    };
+
+    return { pendingReview, reviewTransactions, closeReview };
+};
@@ -0,0 +1,211 @@
+import { FC, ReactNode, createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { PublicKey } from '@solana/web3.js';
+import { useRpcSettings } from './WalletContextProvider';
+import { MAX_TRANSACTION_HISTORY, TRANSACTION_HISTORY_KEY } from '../utils/constants';
+import {
+    ExplorerCluster,
+    ExplorerSettings,
+    getExplorerCluster,
+    getExplorerTxUrl,
+    loadExplorerSettings,
+    saveExplorerSettings,
+} from '../utils/explorer';
+import { NetworkId } from '../utils/networks';
+import { SendStatus } from '../utils/sendTransaction';
+
+export type NotificationKind = 'info' | 'success' | 'error';
+
+interface Notification {
+    id: string;
+    kind: NotificationKind;
+    message: string;
+    link: string | null;
+}
+
+export interface TrackedTransaction {
+    signature: string;
+    operation: string; // e.g. "Add Key"
+    profile: string | null;
+    status: SendStatus;
+    network: NetworkId; // Only the current network's entries are followed up on
+    cluster: ExplorerCluster;
+    sentAt: number;
+    updatedAt: number;
+}
+
+type StatusCallback = (status: SendStatus, signature: string) => void;
+
+const TransactionTrackerContext = createContext<{
+    history: TrackedTransaction[];
+    notify: (kind: NotificationKind, message: string) => void;
+    trackStatus: (operation: string, profile?: PublicKey | string) => StatusCallback;
+    updateStatus: (signature: string, status: SendStatus) => void;
+    clearHistory: () => void;
+    explorerSettings: ExplorerSettings;
+    setExplorerSettings: (settings: ExplorerSettings) => void;
+    getExplorerUrl: (entry: TrackedTransaction) => string | null;
+}>({
+    history: [],
+    notify: () => {},
+    trackStatus: () => () => {},
+    updateStatus: () => {},
+    clearHistory: () => {},
+    explorerSettings: loadExplorerSettings(),
+    setExplorerSettings: () => {},
+    getExplorerUrl: () => null,
+});
+
+export const useTransactionTracker = () => useContext(TransactionTrackerContext);
+
+const loadHistory = (): TrackedTransaction[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        return JSON.parse(localStorage.getItem(TRANSACTION_HISTORY_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+// Toast shown for each state a tracked transaction reaches, finalization only updates the drawer
+const STATUS_NOTIFICATIONS: Partial<Record<SendStatus, { kind: NotificationKind; text: string }>> = {
+    sent: { kind: 'info', text: 'sent' },
+    confirmed: { kind: 'success', text: 'confirmed' },
+    expired: { kind: 'error', text: 'expired before it landed' },
+    failed: { kind: 'error', text: 'failed on-chain' },
+};
+
+const NOTIFICATION_TIMEOUT_MS: Record<NotificationKind, number> = {
+    info: 6000,
+    success: 6000,
+    error: 12000,
+};
+
+const NOTIFICATION_STYLES: Record<NotificationKind, string> = {
+    info: 'border-l-[var(--sa-accent)]',
+    success: 'border-l-emerald-500',
+    error: 'border-l-red-500',
+};
+
+const Toast = ({ notification, onDismiss }: { notification: Notification; onDismiss: (id: string) => void }) => {
+    // Restarts whenever the toast is replaced by a later status of the same transaction
+    useEffect(() => {
+        const timer = setTimeout(() => onDismiss(notification.id), NOTIFICATION_TIMEOUT_MS[notification.kind]);
+        return () => clearTimeout(timer);
+    }, [notification.id, notification.kind, notification.message, onDismiss]);
+
+    return (
+        <div className={`sage-card px-4 py-3 border-l-4 ${NOTIFICATION_STYLES[notification.kind]} flex items-start gap-3`}>
+            <div className="flex-1 min-w-0">
+                <p className="font-mono text-sm text-[var(--sa-text)] break-words">{notification.message}</p>
+                {notification.link && (
+                    <a
+                        href={notification.link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-xs text-[var(--sa-accent)] hover:underline"
+                    >
+                        VIEW IN EXPLORER →
+                    </a>
+                )}
+            </div>
+            <button onClick={() => onDismiss(notification.id)} className="font-mono text-xs text-[var(--sa-text-dim)] hover:text-[var(--sa-text)]">
+                ✕
+            </button>
+        </div>
+    );
+};
+
+export const TransactionTrackerProvider: FC<{ children: ReactNode }> = ({ children }) => {
+    const { rpcUrl, network } = useRpcSettings();
+    const [history, setHistory] = useState<TrackedTransaction[]>(loadHistory);
+    const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [explorerSettings, setExplorerSettingsState] = useState(loadExplorerSettings);
+    const nextId = useRef(0);
+
+    useEffect(() => {
+        localStorage.setItem(TRANSACTION_HISTORY_KEY, JSON.stringify(history));
+    }, [history]);
+
+    const setExplorerSettings = (settings: ExplorerSettings) => {
+        saveExplorerSettings(settings);
+        setExplorerSettingsState(settings);
+    };
+
+    const getExplorerUrl = (entry: TrackedTransaction) => getExplorerTxUrl(entry.signature, entry.cluster, explorerSettings);
+
+    // Notifications with the same id replace each other, so a transaction has one toast at a time
+    const pushNotification = useCallback((notification: Omit<Notification, 'id'>, id?: string) => {
+        const key = id ?? `notification-${nextId.current++}`;
+        setNotifications(prev => [...prev.filter(n => n.id !== key), { ...notification, id: key }]);
+    }, []);
+
+    const dismiss = useCallback((id: string) => {
+        setNotifications(prev => prev.filter(n => n.id !== id));
+    }, []);
+
+    const notify = useCallback((kind: NotificationKind, message: string) => {
+        pushNotification({ kind, message, link: null });
+    }, [pushNotification]);
+
+    const updateStatus = useCallback((signature: string, status: SendStatus) => {
+        setHistory(prev => prev.map(entry =>
+            entry.signature === signature && entry.status !== status ? { ...entry, status, updatedAt: Date.now() } : entry
+        ));
+    }, []);
+
+    const trackStatus = (operation: string, profile?: PublicKey | string): StatusCallback => {
+        const cluster = getExplorerCluster(network, rpcUrl);
+        return (status, signature) => {
+            const now = Date.now();
+            setHistory(prev => prev.some(entry => entry.signature === signature)
+                ? prev.map(entry => entry.signature === signature ? { ...entry, status, updatedAt: now } : entry)
+                : [
+                    {
+                        signature,
+                        operation,
+                        profile: typeof profile === 'string' ? profile : profile?.toBase58() ?? null,
+                        status,
+                        network: network.id,
+                        cluster,
+                        sentAt: now,
+                        updatedAt: now,
+                    },
+                    ...prev,
+                ].slice(0, MAX_TRANSACTION_HISTORY)
+            );
+
+            const shown = STATUS_NOTIFICATIONS[status];
+            if (shown) {
+                pushNotification({
+                    kind: shown.kind,
+                    message: `${operation} ${shown.text}`,
+                    link: getExplorerTxUrl(signature, cluster, explorerSettings),
+                }, signature);
+            }
+        };
+    };
+
+    return (
+        <TransactionTrackerContext.Provider value={{
+            history,
+            notify,
+            trackStatus,
+            updateStatus,
+            clearHistory: () => setHistory([]),
+            explorerSettings,
+            setExplorerSettings,
+            getExplorerUrl,
+        }}>
+            {children}
+            {notifications.length > 0 && createPortal(
+                <div className="fixed bottom-4 right-4 z-[90] w-full max-w-sm space-y-2 px-4 sm:px-0">
+                    {notifications.map(notification => (
+                        <Toast key={notification.id} notification={notification} onDismiss={dismiss} />
+                    ))}
+                </div>,
+                document.body
+            )}
+        </TransactionTrackerContext.Provider>
+    );
+};
@@ -1,57 +1,176 @@
-import { FC, ReactNode, useMemo, useState, createContext, useContext } from 'react';
+import { FC, ReactNode, useCallback, useEffect, useMemo, useRef, useState, createContext, useContext } from 'react';
 import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
-import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
-import { clusterApiUrl } from '@solana/web3.js';
+import { ConnectionConfig } from '@solana/web3.js';
+import { NetworkId, NetworkProfile, getNetworkProfile, loadCustomProgramId, saveCustomProgramId } from '../utils/networks';
+import {
+    DEFAULT_RPC_ENDPOINT,
+    EndpointHealth,
+    RpcEndpoint,
+    checkEndpointHealth,
+    createEndpointId,
+    createFailoverFetch,
+    getNetworkEndpoints,
+    loadRpcEndpoints,
+    saveRpcEndpoints,
+} from '../utils/rpcEndpoints';
 import '@solana/wallet-adapter-react-ui/styles.css';
 
+export interface RpcFailover {
+    from: RpcEndpoint;
+    to: RpcEndpoint;
+    reason: string;
+    at: number;
+}
+
 const RpcContext = createContext<{
     rpcUrl: string;
-    setRpcUrl: (url: string) => void;
-    resetRpcUrl: () => void;
-    isCustom: boolean;
+    network: NetworkProfile;
+    setNetwork: (network: NetworkId) => void;
+    programId: string; // Player profile program of the current network, may be invalid when custom
+    customProgramId: string;
+    setCustomProgramId: (programId: string) => void;
+    endpoints: RpcEndpoint[]; // Endpoints of the current network, primary first
+    activeEndpoint: RpcEndpoint | null; // null when the network has no endpoints saved
+    addEndpoint: (name: string, url: string, wsUrl?: string) => void;
+    removeEndpoint: (id: string) => void;
+    setPrimaryEndpoint: (id: string) => void;
+    health: Record<string, EndpointHealth>;
+    checkEndpoints: () => Promise<void>;
+    lastFailover: RpcFailover | null;
+    settingsOpen: boolean;
+    setSettingsOpen: (open: boolean) => void;
 }>({
     rpcUrl: '',
-    setRpcUrl: () => {},
-    resetRpcUrl: () => {},
-    isCustom: false,
+    network: getNetworkProfile('mainnet'),
+    setNetwork: () => {},
+    programId: '',
+    customProgramId: '',
+    setCustomProgramId: () => {},
+    endpoints: [],
+    activeEndpoint: null,
+    addEndpoint: () => {},
+    removeEndpoint: () => {},
+    setPrimaryEndpoint: () => {},
+    health: {},
+    checkEndpoints: async () => {},
+    lastFailover: null,
+    settingsOpen: false,
+    setSettingsOpen: () => {},
 });
 
 export const useRpcSettings = () => useContext(RpcContext);
 
 export const WalletContextProvider: FC<{ children: ReactNode }> = ({ children }) => {
-    // The network can be set to 'devnet', 'testnet', or 'mainnet-beta'.
-    const network = WalletAdapterNetwork.Mainnet;
-    const defaultEndpoint = useMemo(() => clusterApiUrl(network), [network]);
-    
-    const [rpcUrl, setRpcUrlState] = useState(() => {
-        return localStorage.getItem('custom_rpc_url') || defaultEndpoint;
-    });
-
-    const setRpcUrl = (url: string) => {
-        setRpcUrlState(url);
-        localStorage.setItem('custom_rpc_url', url);
+    const [store, setStore] = useState(loadRpcEndpoints);
+    const [networkId, setNetwork] = useState<NetworkId>('mainnet');
+    const [customProgramId, setCustomProgramIdState] = useState(loadCustomProgramId);
+    // Endpoint in use after a failover, until the network or primary changes
+    const [failoverId, setFailoverId] = useState<string | null>(null);
+    const [health, setHealth] = useState<Record<string, EndpointHealth>>({});
+    const [lastFailover, setLastFailover] = useState<RpcFailover | null>(null);
+    // Lifted here so error messages elsewhere can open the RPC settings dialog
+    const [settingsOpen, setSettingsOpen] = useState(false);
+
+    const network = getNetworkProfile(networkId);
+    const programId = network.programId?.toBase58() ?? customProgramId;
+    const endpoints = useMemo(() => getNetworkEndpoints(store, networkId), [store, networkId]);
+    const activeEndpoint = endpoints.find(e => e.id === failoverId) || endpoints[0] || null;
+    // ConnectionProvider needs some endpoint, the profile manager stays idle until the network has one
+    const rpcUrl = activeEndpoint?.url || DEFAULT_RPC_ENDPOINT.url;
+
+    useEffect(() => {
+        setFailoverId(null);
+    }, [networkId, store.primary]);
+
+    const setCustomProgramId = (value: string) => {
+        setCustomProgramIdState(value);
+        saveCustomProgramId(value);
+    };
+
+    const updateStore = (next: typeof store) => {
+        setStore(next);
+        saveRpcEndpoints(next);
+    };
+
+    const addEndpoint = (name: string, url: string, wsUrl?: string) => {
+        const endpoint: RpcEndpoint = { id: createEndpointId(), name, url, network: networkId };
+        if (wsUrl) endpoint.wsUrl = wsUrl;
+        updateStore({ ...store, endpoints: [...store.endpoints, endpoint] });
+    };
+
+    const removeEndpoint = (id: string) => {
+        const primary = Object.fromEntries(Object.entries(store.primary).filter(([, primaryId]) => primaryId !== id));
+        updateStore({ endpoints: store.endpoints.filter(e => e.id !== id), primary });
     };
 
-    const resetRpcUrl = () => {
-        setRpcUrlState(defaultEndpoint);
-        localStorage.removeItem('custom_rpc_url');
+    const setPrimaryEndpoint = (id: string) => {
+        const endpoint = store.endpoints.find(e => e.id === id);
+        if (endpoint) updateStore({ ...store, primary: { ...store.primary, [endpoint.network]: id } });
     };
 
+    const checkEndpoints = useCallback(async () => {
+        const results = await Promise.all(endpoints.map(async e => [e.id, await checkEndpointHealth(e.url)] as const));
+        setHealth(prev => ({ ...prev, ...Object.fromEntries(results) }));
+    }, [endpoints]);
+
+    // The failover fetch outlives renders, so it reads the current endpoints through a ref
+    const failoverState = useRef({ endpoints, activeEndpoint, health });
+    failoverState.current = { endpoints, activeEndpoint, health };
+
+    const wsEndpoint = activeEndpoint?.wsUrl;
+    const config = useMemo<ConnectionConfig>(() => ({
+        commitment: 'confirmed',
+        wsEndpoint,
+        // web3.js waits out 429s on one endpoint by default, moving to another is faster
+        disableRetryOnRateLimit: endpoints.length > 1,
+        fetch: createFailoverFetch(
+            () => {
+                const { endpoints, activeEndpoint, health } = failoverState.current;
+                const others = endpoints.filter(e => e.id !== activeEndpoint?.id && health[e.id]?.healthy !== false);
+                return [activeEndpoint, ...others].filter((e): e is RpcEndpoint => !!e).map(e => e.url);
+            },
+            (fromUrl, toUrl, reason) => {
+                const { endpoints } = failoverState.current;
+                const from = endpoints.find(e => e.url === fromUrl);
+                const to = endpoints.find(e => e.url === toUrl);
+                if (!from || !to) return;
+                setFailoverId(to.id);
+                setLastFailover({ from, to, reason, at: Date.now() });
+            },
+        ),
+    }), [endpoints.length, wsEndpoint]);
+
+    const walletNetwork = network.walletNetwork;
     const wallets = useMemo(
         () => [
             new PhantomWalletAdapter(),
-            new SolflareWalletAdapter(),
+            new SolflareWalletAdapter({ network: walletNetwork }),
         ],
-        []
+        [walletNetwork]
     );
 
-    const isCustom = rpcUrl !== defaultEndpoint;
-
     return (
-        <RpcContext.Provider value={{ rpcUrl, setRpcUrl, resetRpcUrl, isCustom }}>
-            <ConnectionProvider endpoint={rpcUrl}>
+        <RpcContext.Provider value={{
+            rpcUrl,
+            network,
+            setNetwork,
+            programId,
+            customProgramId,
+            setCustomProgramId,
+            endpoints,
+            activeEndpoint,
+            addEndpoint,
+            removeEndpoint,
+            setPrimaryEndpoint,
+            health,
+            checkEndpoints,
+            lastFailover,
+            settingsOpen,
+            setSettingsOpen,
+        }}>
+            <ConnectionProvider endpoint={rpcUrl} config={config}>
                 <WalletProvider wallets={wallets} autoConnect>
                     <WalletModalProvider>
                         {children}
@@ -3,11 +3,17 @@ import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { WalletContextProvider } from './components/WalletContextProvider.tsx'
+import { TransactionTrackerProvider } from './components/TransactionTracker.tsx'
+import { ClusterStatusProvider } from './components/ClusterStatus.tsx'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <WalletContextProvider>
-      <App />
+      <TransactionTrackerProvider>
+        <ClusterStatusProvider>
+          <App />
+        </ClusterStatusProvider>
+      </TransactionTrackerProvider>
     </WalletContextProvider>
   </React.StrictMode>,
 )
@@ -0,0 +1,94 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { AsyncSigner, ixReturnsToIxs } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram, ProfilePermissions } from '@staratlas/player-profile';
+import { AuthKeyEntry, authKeyInput, getAuthKeys, mergeKeyRanges, shiftKeyIndex } from './profileKeys';
+
+export interface AuthKeyChange {
+    coSigners: PublicKey[]; // Auth keys that sign besides the connected wallet
+    newAuthKeys: PublicKey[];
+    removeIndexes: number[]; // Indexes of auth keys to remove
+    newKeyThreshold: number;
+}
+
+// One adjustAuth instruction of an auth key change
+interface AdjustAuthStep {
+    signers: AuthKeyEntry[];
+    newAuthKeys: PublicKey[];
+    removeRange: [number, number];
+}
+
+/**
+ * Splits an auth key change into adjustAuth instructions, one per contiguous range of removed keys.
+ * New keys are added by the first instruction, so the auth set only shrinks afterwards. Ranges are
+ * removed from the top down and the signers' indexes follow the keys removed below them.
+ * Throws if a later instruction would be left without enough signers.
+ */
+const planAuthKeyChange = (signers: AuthKeyEntry[], change: AuthKeyChange, currentThreshold: number): AdjustAuthStep[] => {
+    const ranges = mergeKeyRanges(change.removeIndexes);
+    if (ranges.length === 0) {
+        return [{ signers, newAuthKeys: change.newAuthKeys, removeRange: [0, 0] }];
+    }
+
+    const removed: [number, number][] = [];
+    return ranges.map((range, i) => {
+        const remaining = signers.filter(s => !removed.some(([start, end]) => s.index >= start && s.index < end));
+        // The first instruction runs under the current threshold, later ones under the new threshold
+        const required = i === 0 ? currentThreshold : change.newKeyThreshold;
+        if (remaining.length < required) {
+            throw new Error('The signing auth keys are removed before every instruction is signed. Choose co-signers that stay on the profile.');
+        }
+        const step: AdjustAuthStep = {
+            signers: remaining.map(s => ({ key: s.key, index: shiftKeyIndex(s.index, removed) })),
+            newAuthKeys: i === 0 ? change.newAuthKeys : [],
+            removeRange: range,
+        };
+        removed.push(range);
+        return step;
+    });
+};
+
+/**
+ * Builds the adjustAuth instructions for an auth key change, signed by the connected wallet's auth key
+ * and the given co-signers. New auth keys get every profile permission and are marked as signers,
+ * as the program requires.
+ */
+export const buildAdjustAuthInstructions = async (
+    program: PlayerProfileIDLProgram,
+    profile: PlayerProfile,
+    walletSigner: AsyncSigner,
+    change: AuthKeyChange
+): Promise<TransactionInstruction[]> => {
+    const authKeys = getAuthKeys(profile, program.programId);
+    const walletEntry = authKeys.find(entry => entry.key.equals(walletSigner.publicKey()));
+    if (!walletEntry) {
+        throw new Error('The connected wallet is not an auth key on this profile');
+    }
+    const signers = [walletEntry, ...authKeys.filter(entry => change.coSigners.some(k => k.equals(entry.key)))];
+    const steps = planAuthKeyChange(signers, change, profile.data.keyThreshold);
+
+    const instructions: TransactionInstruction[] = [];
+    for (const step of steps) {
+        instructions.push(...await ixReturnsToIxs(
+            PlayerProfile.adjustAuth(
+                program,
+                step.signers.map(entry => authKeyInput(program, profile, entry, walletSigner)),
+                step.newAuthKeys.map(key => (cont) => cont({
+                    key,
+                    expireTime: null,
+                    scope: program.programId,
+                    permissions: ProfilePermissions.all(),
+                })),
+                step.removeRange,
+                change.newKeyThreshold,
+            ),
+            walletSigner,
+        ));
+    }
+
+    for (const ix of instructions) {
+        for (const meta of ix.keys) {
+            if (change.newAuthKeys.some(k => k.equals(meta.pubkey))) meta.isSigner = true;
+        }
+    }
+    return instructions;
+};
@@ -0,0 +1,22 @@
+import { Commitment, Connection, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
+
+export interface ClusterClock {
+    slot: number;
+    unixTimestamp: number; // Seconds, as the program sees it when checking key expiry
+}
+
+/**
+ * Reads the Clock sysvar. Key expiry is checked on-chain against this timestamp, which can
+ * differ from the browser clock by minutes, so expiry decisions should use it instead.
+ */
+export const fetchClusterClock = async (connection: Connection, commitment: Commitment = 'confirmed'): Promise<ClusterClock> => {
+    const account = await connection.getAccountInfo(SYSVAR_CLOCK_PUBKEY, commitment);
+    if (!account || account.data.length < 40) {
+        throw new Error('Failed to read the Clock sysvar');
+    }
+    // Layout: slot u64, epoch_start_timestamp i64, epoch u64, leader_schedule_epoch u64, unix_timestamp i64
+    return {
+        slot: Number(account.data.readBigUInt64LE(0)),
+        unixTimestamp: Number(account.data.readBigInt64LE(32)),
+    };
+};
@@ -0,0 +1,69 @@
+import { Connection } from '@solana/web3.js';
+import { fetchClusterClock } from './clock';
+
+export type ClusterHealth = 'online' | 'degraded' | 'offline';
+
+export interface ClusterStatus {
+    health: ClusterHealth;
+    slot: number | null;
+    latencyMs: number | null;
+    tps: number | null; // Averaged over the recent performance samples, vote transactions included
+    // Cluster clock minus the local clock in seconds, positive when the cluster is ahead
+    driftSeconds: number | null;
+    reason: string | null; // Why the cluster is degraded or offline
+    checkedAt: number;
+}
+
+export const CLUSTER_STATUS_INTERVAL_MS = 15_000;
+
+const DEGRADED_LATENCY_MS = 1500;
+// Slots normally take about 400ms, sustained slower slots mean the cluster is struggling
+const DEGRADED_SLOT_TIME_MS = 800;
+// Performance samples cover 60 seconds each
+const PERFORMANCE_SAMPLES = 5;
+
+/**
+ * Polls the cluster once: getSlot round trip for latency, the Clock sysvar for drift and recent
+ * performance samples for TPS. `previous` lets a slot that stopped advancing count as degraded.
+ */
+export const fetchClusterStatus = async (connection: Connection, previous: ClusterStatus | null): Promise<ClusterStatus> => {
+    try {
+        const start = performance.now();
+        const slot = await connection.getSlot();
+        const latencyMs = Math.round(performance.now() - start);
+
+        const [clock, samples] = await Promise.all([
+            fetchClusterClock(connection),
+            // Not every RPC provider serves performance samples
+            connection.getRecentPerformanceSamples(PERFORMANCE_SAMPLES).catch(() => []),
+        ]);
+        const driftSeconds = clock.unixTimestamp - Math.round(Date.now() / 1000);
+
+        const sampleSeconds = samples.reduce((sum, s) => sum + s.samplePeriodSecs, 0);
+        const sampleSlots = samples.reduce((sum, s) => sum + s.numSlots, 0);
+        const tps = sampleSeconds > 0 ? Math.round(samples.reduce((sum, s) => sum + s.numTransactions, 0) / sampleSeconds) : null;
+        const slotTimeMs = sampleSlots > 0 ? (sampleSeconds * 1000) / sampleSlots : null;
+
+        let reason: string | null = null;
+        if (previous?.slot != null && slot <= previous.slot) {
+            reason = `Slot has not advanced since ${new Date(previous.checkedAt).toLocaleTimeString()}`;
+        } else if (latencyMs > DEGRADED_LATENCY_MS) {
+            reason = `RPC latency ${latencyMs}ms`;
+        } else if (slotTimeMs !== null && slotTimeMs > DEGRADED_SLOT_TIME_MS) {
+            reason = `Slow block production (${Math.round(slotTimeMs)}ms per slot)`;
+        }
+
+        return { health: reason ? 'degraded' : 'online', slot, latencyMs, tps, driftSeconds, reason, checkedAt: Date.now() };
+    } catch (e) {
+        return {
+            health: 'offline',
+            slot: previous?.slot ?? null,
+            latencyMs: null,
+            tps: null,
+            // The last known drift still applies while the RPC is unreachable
+            driftSeconds: previous?.driftSeconds ?? null,
+            reason: e instanceof Error ? e.message : String(e),
+            checkedAt: Date.now(),
+        };
+    }
+};
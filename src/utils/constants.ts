@@ -2,34 +2,37 @@ import { PublicKey } from '@solana/web3.js';
 
 export const PLAYER_PROFILE_PROGRAM_ID = new PublicKey('pprofELXjL5Kck7Jn5hCpwAL82DpTkSYBENzahVtbc9');
 
-// Program ID options with labels
-export interface ProgramIdOption {
-  id: string;
-  label: string;
-  network: string;
-}
-
-export const PROGRAM_ID_OPTIONS: ProgramIdOption[] = [
-  {
-    id: 'pprofELXjL5Kck7Jn5hCpwAL82DpTkSYBENzahVtbc9',
-    label: 'Solana Mainnet',
-    network: 'mainnet',
-  },
-  {
-    id: 'PprofUW1pURCnMW2si88GWPXEEK3Bvh9Tksy8WtnoYJ',
-    label: 'Atlasnet',
-    network: 'atlasnet',
-  },
-  {
-    id: 'custom',
-    label: 'Custom',
-    network: 'custom',
-  },
-];
+// Star Atlas programs profile keys are commonly scoped to
+export const SAGE_PROGRAM_ID = new PublicKey('SAGE2HAwep459SNq61LHvjxPk4pLPEJLoMETef7f7EE');
+export const CREW_PROGRAM_ID = new PublicKey('CREWiq8qbxvo4SKkAFpVnc6t7CRQC4tAAscsNAENXgrJ');
+export const PROFILE_FACTION_PROGRAM_ID = new PublicKey('pFACSRuobDmvfMKq1bAzwj27t6d2GJhSCHb1VcfnRmq');
 
 // LocalStorage key for custom program ID
 export const CUSTOM_PROGRAM_ID_KEY = 'player-profile-custom-program-id';
 
-// Legacy export for backwards compatibility
-export const KNOWN_PROGRAM_IDS = PROGRAM_ID_OPTIONS.map(opt => opt.id);
+// Number of key slots scanned at least when discovering profiles the wallet is a key on, more
+// when a profile found has more keys. Each slot costs one getProgramAccounts call, so they are
+// queried in small batches.
+export const PROFILE_KEY_SCAN_SLOTS = 16;
+export const PROFILE_KEY_SCAN_BATCH_SIZE = 4;
 
+// LocalStorage key for durable nonce accounts created or used by this tool
+export const NONCE_ACCOUNTS_KEY = 'player-profile-nonce-accounts';
+
+// Upper bound on PlayerName length in UTF-8 bytes. The program only limits it by account size,
+// this keeps names readable in game UIs.
+export const MAX_PROFILE_NAME_BYTES = 32;
+
+// LocalStorage key for the priority fee and compute budget settings
+export const PRIORITY_FEE_SETTINGS_KEY = 'player-profile-priority-fee-settings';
+
+// LocalStorage keys for the recent transactions drawer and its explorer links
+export const TRANSACTION_HISTORY_KEY = 'player-profile-transaction-history';
+export const EXPLORER_SETTINGS_KEY = 'player-profile-explorer-settings';
+export const MAX_TRANSACTION_HISTORY = 50;
+
+// LocalStorage key for saved RPC endpoints and the primary endpoint of each network
+export const RPC_ENDPOINTS_KEY = 'player-profile-rpc-endpoints';
+
+// LocalStorage key for how close to expiry a key is flagged as expiring soon, in hours
+export const EXPIRING_SOON_HOURS_KEY = 'player-profile-expiring-soon-hours';
@@ -0,0 +1,393 @@
+import {
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    Connection,
+    LAMPORTS_PER_SOL,
+    PublicKey,
+    SystemInstruction,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+} from '@solana/web3.js';
+import { BN, BorshInstructionCoder } from '@staratlas/anchor';
+import { FixedSizeArray, readFromRPCNullable } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+
+export interface DecodedKeyEntry {
+    key: PublicKey;
+    scope: PublicKey;
+    expireTime: number | null; // Unix seconds, null when the key never expires
+    permissions: FixedSizeArray<number, 8>;
+}
+
+export interface ProfileSnapshot {
+    keys: DecodedKeyEntry[];
+    authKeyCount: number;
+    keyThreshold: number;
+}
+
+export interface DecodedAccount {
+    name: string;
+    pubkey: PublicKey;
+    isSigner: boolean;
+    isWritable: boolean;
+}
+
+export interface DecodedInstruction {
+    programId: PublicKey;
+    programName: string;
+    name: string;
+    args: [string, string][];
+    accounts: DecodedAccount[];
+    profile: PublicKey | null;
+    keysAdded: DecodedKeyEntry[];
+    keysRemoved: DecodedKeyEntry[];
+    newKeyThreshold: number | null;
+}
+
+// Predicted state of a profile after every instruction of the transaction has run
+export interface ProfileOutcome {
+    profile: PublicKey;
+    before: ProfileSnapshot | null;
+    after: ProfileSnapshot | null;
+    keysAdded: DecodedKeyEntry[];
+    keysRemoved: DecodedKeyEntry[];
+}
+
+export interface DecodedTransaction {
+    feePayer: PublicKey | null;
+    recentBlockhash: string | null;
+    signers: { publicKey: PublicKey; signed: boolean }[];
+    instructions: DecodedInstruction[];
+    profiles: ProfileOutcome[];
+}
+
+interface AddKeyInputArg {
+    scope: PublicKey;
+    expireTime: BN;
+    permissions: number[];
+}
+
+// Decoded arguments of the instructions whose key changes are predicted, as named in the IDL
+interface AddKeysArgs {
+    keyAddIndex: number;
+    keyPermissionsIndex: number;
+    keysToAdd: AddKeyInputArg[];
+}
+
+interface RemoveKeysArgs {
+    keyIndex: number;
+    keysToRemove: [number, number];
+}
+
+interface AdjustAuthArgs {
+    authIndexes: number[];
+    newKeyPermissions: AddKeyInputArg[];
+    removeRange: [number, number];
+    newKeyThreshold: number;
+}
+
+interface CreateProfileArgs {
+    keyPermissions: AddKeyInputArg[];
+    keyThreshold: number;
+}
+
+interface SetNameArgs {
+    keyIndex: number;
+    name: number[] | Uint8Array;
+}
+
+export const snapshotFromProfile = (profile: PlayerProfile): ProfileSnapshot => ({
+    keys: profile.profileKeys.map(k => ({
+        key: k.key,
+        scope: k.scope,
+        expireTime: k.expireTime.ltn(0) ? null : k.expireTime.toNumber(),
+        permissions: k.permissions,
+    })),
+    authKeyCount: profile.data.authKeyCount,
+    keyThreshold: profile.data.keyThreshold,
+});
+
+// Programs built by the SDK use the Borsh coder, which can also decode instruction data
+const decodeInstructionData = (program: PlayerProfileIDLProgram, data: Buffer) =>
+    (program.coder.instruction as BorshInstructionCoder).decode(data);
+
+// Bit 0 of the first permission byte is the profile auth flag
+const hasAuthFlag = (entry: DecodedKeyEntry) => (entry.permissions[0] & 1) === 1;
+
+const toKeyEntries = (inputs: AddKeyInputArg[], keys: PublicKey[]): DecodedKeyEntry[] =>
+    inputs.map((input, i) => ({
+        key: keys[i],
+        scope: input.scope,
+        expireTime: input.expireTime.ltn(0) ? null : input.expireTime.toNumber(),
+        permissions: [...input.permissions] as FixedSizeArray<number, 8>,
+    }));
+
+// Every required signer of a transaction, fee payer first, and whether it has signed yet
+export const getRequiredSigners = (tx: Transaction): { publicKey: PublicKey; signed: boolean }[] => {
+    const required: PublicKey[] = [];
+    const add = (key: PublicKey) => {
+        if (!required.some(k => k.equals(key))) required.push(key);
+    };
+    if (tx.feePayer) add(tx.feePayer);
+    for (const ix of tx.instructions) {
+        for (const meta of ix.keys) {
+            if (meta.isSigner) add(meta.pubkey);
+        }
+    }
+    return required.map(publicKey => {
+        const entry = tx.signatures.find(s => s.publicKey.equals(publicKey));
+        return { publicKey, signed: !!entry?.signature && entry.signature.some(b => b !== 0) };
+    });
+};
+
+const emptyDecoded = (ix: TransactionInstruction, programName: string, name: string): DecodedInstruction => ({
+    programId: ix.programId,
+    programName,
+    name,
+    args: [],
+    accounts: ix.keys.map((k, i) => ({ name: `Account ${i + 1}`, ...k })),
+    profile: null,
+    keysAdded: [],
+    keysRemoved: [],
+    newKeyThreshold: null,
+});
+
+const formatSol = (lamports: number | bigint) => `${Number(lamports) / LAMPORTS_PER_SOL} SOL`;
+
+const decodeSystemInstruction = (ix: TransactionInstruction): DecodedInstruction => {
+    const type = SystemInstruction.decodeInstructionType(ix);
+    const decoded = emptyDecoded(ix, 'System Program', type);
+    switch (type) {
+        case 'Transfer': {
+            const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(ix);
+            decoded.args = [['From', fromPubkey.toBase58()], ['To', toPubkey.toBase58()], ['Amount', formatSol(lamports)]];
+            break;
+        }
+        case 'Create': {
+            const { newAccountPubkey, lamports, space } = SystemInstruction.decodeCreateAccount(ix);
+            decoded.args = [['Account', newAccountPubkey.toBase58()], ['Rent', formatSol(lamports)], ['Space', `${space} bytes`]];
+            break;
+        }
+        case 'AdvanceNonceAccount': {
+            const { noncePubkey, authorizedPubkey } = SystemInstruction.decodeNonceAdvance(ix);
+            decoded.args = [['Nonce Account', noncePubkey.toBase58()], ['Authority', authorizedPubkey.toBase58()]];
+            break;
+        }
+        case 'InitializeNonceAccount': {
+            const { noncePubkey, authorizedPubkey } = SystemInstruction.decodeNonceInitialize(ix);
+            decoded.args = [['Nonce Account', noncePubkey.toBase58()], ['Authority', authorizedPubkey.toBase58()]];
+            break;
+        }
+        case 'WithdrawNonceAccount': {
+            const { noncePubkey, toPubkey, lamports } = SystemInstruction.decodeNonceWithdraw(ix);
+            decoded.args = [['Nonce Account', noncePubkey.toBase58()], ['To', toPubkey.toBase58()], ['Amount', formatSol(lamports)]];
+            break;
+        }
+    }
+    return decoded;
+};
+
+const decodeComputeBudgetInstruction = (ix: TransactionInstruction): DecodedInstruction => {
+    const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+    const decoded = emptyDecoded(ix, 'Compute Budget', type);
+    if (type === 'SetComputeUnitLimit') {
+        decoded.args = [['Units', ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units.toString()]];
+    } else if (type === 'SetComputeUnitPrice') {
+        decoded.args = [['Micro-lamports', ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports.toString()]];
+    }
+    return decoded;
+};
+
+/**
+ * Decodes a player profile instruction and applies its key changes to the profile snapshot.
+ * Added auth keys are placed after the existing auth keys, other keys are appended.
+ */
+const decodeProfileInstruction = (
+    ix: TransactionInstruction,
+    program: PlayerProfileIDLProgram,
+    snapshots: Map<string, ProfileSnapshot | null>
+): DecodedInstruction => {
+    const coded = decodeInstructionData(program, ix.data);
+    if (!coded) return emptyDecoded(ix, 'Player Profile', 'Unknown');
+
+    const idlIx = program.idl.instructions.find(i => i.name === coded.name);
+    const namedCount = idlIx?.accounts.length || 0;
+    const decoded = emptyDecoded(ix, 'Player Profile', coded.name);
+    decoded.accounts = ix.keys.map((k, i) => ({
+        name: i < namedCount ? idlIx!.accounts[i].name : `Remaining ${i - namedCount + 1}`,
+        ...k,
+    }));
+
+    const profileIndex = idlIx?.accounts.findIndex(a => a.name === 'profile') ?? -1;
+    const profile = profileIndex >= 0 ? ix.keys[profileIndex]?.pubkey || null : null;
+    decoded.profile = profile;
+    const snapshot = profile ? snapshots.get(profile.toBase58()) || null : null;
+    const remaining = ix.keys.slice(namedCount).map(k => k.pubkey);
+    // Range of key indexes removed, before any keys are added
+    let removeRange: [number, number] | null = null;
+
+    switch (coded.name) {
+        case 'addKeys': {
+            const data = coded.data as AddKeysArgs;
+            decoded.args = [['Signer Key Index', data.keyAddIndex.toString()], ['Permissions Key Index', data.keyPermissionsIndex.toString()]];
+            decoded.keysAdded = toKeyEntries(data.keysToAdd, remaining);
+            break;
+        }
+        case 'removeKeys': {
+            const data = coded.data as RemoveKeysArgs;
+            const [start, end] = removeRange = data.keysToRemove;
+            decoded.args = [['Signer Key Index', data.keyIndex.toString()], ['Remove Range', `${start}..${end}`]];
+            decoded.keysRemoved = snapshot ? snapshot.keys.slice(start, end) : [];
+            break;
+        }
+        case 'adjustAuth': {
+            const data = coded.data as AdjustAuthArgs;
+            const [start, end] = removeRange = data.removeRange;
+            decoded.args = [
+                ['Signer Key Indexes', data.authIndexes.join(', ')],
+                ['Remove Range', `${start}..${end}`],
+                ['New Threshold', data.newKeyThreshold.toString()],
+            ];
+            decoded.keysAdded = toKeyEntries(data.newKeyPermissions, remaining.slice(data.authIndexes.length));
+            decoded.keysRemoved = snapshot ? snapshot.keys.slice(start, end) : [];
+            decoded.newKeyThreshold = data.newKeyThreshold;
+            break;
+        }
+        case 'createProfile': {
+            const data = coded.data as CreateProfileArgs;
+            decoded.args = [['Key Threshold', data.keyThreshold.toString()]];
+            decoded.keysAdded = toKeyEntries(data.keyPermissions, remaining);
+            decoded.newKeyThreshold = data.keyThreshold;
+            break;
+        }
+        case 'setName': {
+            const data = coded.data as SetNameArgs;
+            const name = Buffer.from(data.name).toString('utf8');
+            decoded.args = [['Signer Key Index', data.keyIndex.toString()], ['Name', name]];
+            break;
+        }
+        default:
+            decoded.args = Object.entries(coded.data as Record<string, unknown>).map(([key, value]) => [key, String(value)]);
+    }
+
+    if (profile && (decoded.keysAdded.length > 0 || decoded.keysRemoved.length > 0 || decoded.newKeyThreshold !== null)) {
+        snapshots.set(profile.toBase58(), applyKeyChanges(snapshot, coded.name, removeRange, decoded));
+    }
+    return decoded;
+};
+
+const applyKeyChanges = (
+    snapshot: ProfileSnapshot | null,
+    name: string,
+    range: [number, number] | null,
+    decoded: DecodedInstruction
+): ProfileSnapshot | null => {
+    if (name === 'createProfile') {
+        const authKeyCount = decoded.keysAdded.filter(hasAuthFlag).length;
+        return { keys: decoded.keysAdded, authKeyCount, keyThreshold: decoded.newKeyThreshold || 1 };
+    }
+    if (!snapshot) return null;
+
+    let keys = [...snapshot.keys];
+    let authKeyCount = snapshot.authKeyCount;
+    if (range && range[1] > range[0]) {
+        authKeyCount -= keys.slice(range[0], range[1]).filter(hasAuthFlag).length;
+        keys.splice(range[0], range[1] - range[0]);
+    }
+    for (const entry of decoded.keysAdded) {
+        if (hasAuthFlag(entry)) {
+            keys = [...keys.slice(0, authKeyCount), entry, ...keys.slice(authKeyCount)];
+            authKeyCount++;
+        } else {
+            keys.push(entry);
+        }
+    }
+    return {
+        keys,
+        authKeyCount,
+        keyThreshold: decoded.newKeyThreshold ?? snapshot.keyThreshold,
+    };
+};
+
+/**
+ * Decodes transactions into a human-readable form. Transactions are applied in order,
+ * so the predicted key lists of a batch reflect the earlier transactions of that batch.
+ * Without a program only system and compute budget instructions are decoded.
+ */
+export const decodeTransactions = (
+    transactions: Transaction[],
+    program: PlayerProfileIDLProgram | undefined,
+    profiles: Map<string, ProfileSnapshot | null>
+): DecodedTransaction[] => {
+    const snapshots = new Map(profiles);
+
+    return transactions.map(tx => {
+        const before = new Map(snapshots);
+        const instructions = tx.instructions.map(ix => {
+            try {
+                if (ix.programId.equals(SystemProgram.programId)) return decodeSystemInstruction(ix);
+                if (ix.programId.equals(ComputeBudgetProgram.programId)) return decodeComputeBudgetInstruction(ix);
+                if (program && ix.programId.equals(program.programId)) return decodeProfileInstruction(ix, program, snapshots);
+            } catch (e) {
+                console.error('Failed to decode instruction:', e);
+            }
+            return emptyDecoded(ix, ix.programId.toBase58(), 'Unknown');
+        });
+
+        const touched = new Map<string, ProfileOutcome>();
+        for (const ix of instructions) {
+            if (!ix.profile) continue;
+            const key = ix.profile.toBase58();
+            const outcome = touched.get(key) || {
+                profile: ix.profile,
+                before: before.get(key) || null,
+                after: null,
+                keysAdded: [],
+                keysRemoved: [],
+            };
+            outcome.keysAdded.push(...ix.keysAdded);
+            outcome.keysRemoved.push(...ix.keysRemoved);
+            touched.set(key, outcome);
+        }
+        for (const [key, outcome] of touched) {
+            outcome.after = snapshots.get(key) || null;
+        }
+
+        return {
+            feePayer: tx.feePayer || null,
+            recentBlockhash: tx.recentBlockhash || null,
+            signers: getRequiredSigners(tx),
+            instructions,
+            profiles: [...touched.values()],
+        };
+    });
+};
+
+// Fetches the current state of every profile the transactions touch
+export const loadProfileSnapshots = async (
+    connection: Connection,
+    program: PlayerProfileIDLProgram,
+    transactions: Transaction[]
+): Promise<Map<string, ProfileSnapshot | null>> => {
+    const profileAccountIndex = new Map<string, number>(program.idl.instructions.map(ix => [
+        ix.name,
+        ix.accounts.findIndex(a => a.name === 'profile'),
+    ]));
+    const keys = new Set<string>();
+    for (const tx of transactions) {
+        for (const ix of tx.instructions) {
+            if (!ix.programId.equals(program.programId)) continue;
+            const coded = decodeInstructionData(program, ix.data);
+            const index = coded ? profileAccountIndex.get(coded.name) ?? -1 : -1;
+            if (index >= 0 && ix.keys[index]) keys.add(ix.keys[index].pubkey.toBase58());
+        }
+    }
+
+    const snapshots = new Map<string, ProfileSnapshot | null>();
+    await Promise.all([...keys].map(async key => {
+        const profile = await readFromRPCNullable(connection, program, new PublicKey(key), PlayerProfile, 'confirmed');
+        snapshots.set(key, profile ? snapshotFromProfile(profile) : null);
+    }));
+    return snapshots;
+};
@@ -0,0 +1,60 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { BN } from '@staratlas/anchor';
+import { AsyncSigner, ixReturnsToIxs } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { RawPermissions } from './permissions';
+
+export interface KeyEntryUpdate {
+    scope: PublicKey;
+    expireTime: BN | null;
+    permissions: RawPermissions;
+}
+
+/**
+ * Builds a removeKeys + addKeys pair that replaces one key entry in a single transaction,
+ * so the key is never missing from the profile. The addKeys signer is looked up against the
+ * key list as it is after the removal, since keys above the removed one shift down by one.
+ */
+export const buildKeyEditInstructions = async (
+    program: PlayerProfileIDLProgram,
+    profile: PlayerProfile,
+    walletSigner: AsyncSigner,
+    keyIndex: number,
+    update: KeyEntryUpdate
+): Promise<TransactionInstruction[]> => {
+    const entry = profile.profileKeys[keyIndex];
+    if (!entry) {
+        throw new Error(`Key #${keyIndex} does not exist on this profile`);
+    }
+    if (entry.key.equals(walletSigner.publicKey())) {
+        throw new Error('The connected wallet cannot edit the key it signs with');
+    }
+
+    const removeIxs = await ixReturnsToIxs(
+        PlayerProfile.removeKeys(
+            program,
+            { playerProfileProgram: program, profile, key: walletSigner },
+            'funder',
+            [keyIndex, keyIndex + 1],
+        ),
+        walletSigner,
+    );
+
+    // PlayerProfile exposes its fields through getters, so the key list is shadowed on a derived object
+    const afterRemoval: PlayerProfile = Object.create(profile, {
+        profileKeys: { value: profile.profileKeys.filter((_, i) => i !== keyIndex) },
+    });
+    const addIxs = await ixReturnsToIxs(
+        PlayerProfile.addKeys(
+            program,
+            walletSigner,
+            afterRemoval,
+            RawPermissions,
+            update.scope,
+            [{ key: entry.key, expireTime: update.expireTime, permissions: update.permissions }],
+        ),
+        walletSigner,
+    );
+
+    return [...removeIxs, ...addIxs];
+};
@@ -0,0 +1,159 @@
+import {
+    TransactionExpiredBlockheightExceededError,
+    TransactionExpiredNonceInvalidError,
+    TransactionExpiredTimeoutError,
+} from '@solana/web3.js';
+import {
+    WalletError,
+    WalletNotConnectedError,
+    WalletNotReadyError,
+    WalletTimeoutError,
+    WalletWindowClosedError,
+} from '@solana/wallet-adapter-base';
+import { AnchorError } from '@staratlas/anchor';
+import { playerProfileErrorMap } from '@staratlas/player-profile';
+import { NETWORK_PROFILES, loadCustomProgramId } from './networks';
+
+// Follow-up the UI can offer next to the message
+export type ErrorAction = 'rpc-settings' | 'connect-wallet';
+
+export interface DecodedError {
+    message: string;
+    fix: string | null;
+    action: ErrorAction | null;
+    raw: string;
+}
+
+// Error state shown in the UI: a plain validation message or a decoded exception
+export type ErrorState = string | DecodedError;
+
+// Suggested fixes for the player profile program's custom errors, keyed by error name
+const PROFILE_ERROR_FIXES: Record<string, string> = {
+    KeyIndexOutOfBounds: 'The key list changed since it was loaded. Refresh the profiles and try again.',
+    ProfileMismatch: 'The key belongs to a different profile. Refresh the profiles and try again.',
+    KeyMismatch: 'The key at that index is not the signing wallet. Refresh the profiles and try again.',
+    ScopeMismatch: 'Sign with a key scoped to the player profile program.',
+    KeyExpired: 'The signing key has expired. Sign with an auth key or a key that has not expired.',
+    KeyMissingPermissions: 'Connect a wallet whose key holds the required permission, or an auth key.',
+    PermissionsMismatch: 'A key can only grant permissions it holds itself. Remove the extra permissions or sign with an auth key.',
+    AuthKeyCannotExpire: 'Set the expiry of auth keys to "Never".',
+    AuthKeyMustSign: 'New auth keys must co-sign. Use the transfer flow so the destination wallet signs too.',
+    DuplicateAuthKey: 'That wallet is already an auth key on this profile.',
+    FeatureNotImplemented: 'This operation is not supported by the deployed program.',
+};
+
+const profileErrorsByCode = new Map<number, { name: string; msg: string }>(
+    Object.values(playerProfileErrorMap).map(e => [e.code, { name: e.name, msg: e.msg }])
+);
+
+// Matches both "custom program error: 0x1775" and {"Custom":6005} in error messages
+const CUSTOM_ERROR_HEX = /custom program error: 0x([0-9a-f]+)/i;
+const CUSTOM_ERROR_JSON = /"Custom":\s*(\d+)/;
+// Log line of the program that raised a custom error
+const FAILED_PROGRAM_LOG = /^Program (\w+) failed: custom program error/;
+
+const getLogs = (e: unknown): string[] => {
+    const logs = (e as { logs?: unknown })?.logs;
+    return Array.isArray(logs) ? logs.filter((l): l is string => typeof l === 'string') : [];
+};
+
+// Custom error code and the program that raised it, when the error or its logs name one
+const getCustomError = (e: unknown, raw: string): { code: number; program: string | null } | null => {
+    if (e instanceof AnchorError) return { code: e.error.errorCode.number, program: e.program.toBase58() };
+    const logs = getLogs(e);
+    const fromLogs = AnchorError.parse(logs);
+    if (fromLogs) return { code: fromLogs.error.errorCode.number, program: fromLogs.program.toBase58() };
+    const program = logs.map(l => l.match(FAILED_PROGRAM_LOG)?.[1]).find(Boolean) ?? null;
+    const hex = raw.match(CUSTOM_ERROR_HEX);
+    if (hex) return { code: parseInt(hex[1], 16), program };
+    const json = raw.match(CUSTOM_ERROR_JSON);
+    return json ? { code: parseInt(json[1], 10), program } : null;
+};
+
+// Other Anchor programs reuse the same error codes, so only the player profile program's are decoded
+const isProfileProgram = (program: string): boolean =>
+    program === loadCustomProgramId() || NETWORK_PROFILES.some(n => n.programId?.toBase58() === program);
+
+export const decodeProfileErrorCode = (code: number, raw = ''): DecodedError | null => {
+    const known = profileErrorsByCode.get(code);
+    if (!known) return null;
+    return {
+        message: `${known.msg} (${known.name}, ${code}).`,
+        fix: PROFILE_ERROR_FIXES[known.name] || 'Refresh the profiles and try again.',
+        action: null,
+        raw: raw || known.name,
+    };
+};
+
+/**
+ * Maps an error thrown while building, signing, sending or confirming a transaction
+ * to a message and a suggested fix. `context` prefixes the message, e.g. "Failed to sign".
+ */
+export const decodeError = (e: unknown, context?: string): DecodedError => {
+    const decoded = decodeErrorCause(e);
+    return context ? { ...decoded, message: `${context}: ${decoded.message}` } : decoded;
+};
+
+const decodeErrorCause = (e: unknown): DecodedError => {
+    const raw = e instanceof Error ? e.message : typeof e === 'string' ? e : (e as { message?: string })?.message || String(e);
+    const custom = getCustomError(e, raw);
+    // Without logs the raising program is unknown, most instructions sent here are the profile program's
+    const programError = custom && (custom.program === null || isProfileProgram(custom.program))
+        ? decodeProfileErrorCode(custom.code, raw)
+        : null;
+    if (programError) return programError;
+
+    if (e instanceof WalletNotReadyError) {
+        return { message: 'The wallet is not ready.', fix: 'Install or unlock the wallet extension, then reconnect.', action: 'connect-wallet', raw };
+    }
+    if (e instanceof WalletNotConnectedError) {
+        return { message: 'No wallet is connected.', fix: 'Connect a wallet and try again.', action: 'connect-wallet', raw };
+    }
+    if (e instanceof WalletTimeoutError) {
+        return { message: 'The wallet did not respond in time.', fix: 'Open the wallet, approve or reject the pending request, then try again.', action: null, raw };
+    }
+    // Before the wallet rejection check, RPC providers answer "Access denied" too
+    if (/\b(403|429)\b|too many requests|forbidden|access denied|rate limit/i.test(raw)) {
+        return {
+            message: 'The RPC endpoint refused the request (rate limited or forbidden).',
+            fix: 'Switch to a dedicated RPC endpoint such as Helius, QuickNode or Triton.',
+            action: 'rpc-settings',
+            raw,
+        };
+    }
+    if (e instanceof WalletWindowClosedError || /user rejected|rejected the request|denied|declined|cancell?ed/i.test(raw) || (e as { code?: number })?.code === 4001) {
+        return { message: 'The request was rejected in the wallet.', fix: 'Nothing was sent. Try again and approve the request to continue.', action: null, raw };
+    }
+
+    if (/failed to fetch|networkerror|network request failed|ECONNREFUSED/i.test(raw)) {
+        return { message: 'The RPC endpoint could not be reached.', fix: 'Check your connection or choose another RPC endpoint.', action: 'rpc-settings', raw };
+    }
+
+    if (e instanceof TransactionExpiredNonceInvalidError) {
+        return { message: 'The durable nonce was advanced before this transaction landed.', fix: 'Sign the transaction again with the current nonce.', action: null, raw };
+    }
+    if (
+        e instanceof TransactionExpiredBlockheightExceededError ||
+        e instanceof TransactionExpiredTimeoutError ||
+        /block height exceeded|blockhash not found|blockhash.*expired/i.test(raw)
+    ) {
+        return {
+            message: 'The transaction expired before it was confirmed.',
+            fix: 'Sign again and approve promptly; a blockhash is only valid for about a minute. A slow RPC can also cause this.',
+            action: null,
+            raw,
+        };
+    }
+    if (/insufficient (funds|lamports)|no record of a prior credit/i.test(raw)) {
+        return { message: 'The fee payer does not have enough SOL.', fix: 'Fund the fee payer wallet or choose a different fee payer.', action: null, raw };
+    }
+
+    if (e instanceof WalletError) {
+        return { message: `Wallet error: ${raw || e.name}.`, fix: 'Reconnect the wallet and try again.', action: 'connect-wallet', raw };
+    }
+    return { message: raw, fix: null, action: null, raw };
+};
+
+// Single-line form for logs and places that can only show text
+export const formatError = (error: ErrorState): string =>
+    typeof error === 'string' ? error : [error.message, error.fix].filter(Boolean).join(' ');
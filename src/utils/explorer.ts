@@ -0,0 +1,90 @@
+import { EXPLORER_SETTINGS_KEY } from './constants';
+import { NetworkProfile } from './networks';
+
+export type ExplorerId = 'solscan' | 'solana-explorer' | 'custom';
+
+export interface ExplorerSettings {
+    explorer: ExplorerId;
+    // Used by the custom explorer. {signature}, {cluster} and {customUrl} are substituted.
+    customTemplate: string;
+}
+
+export const EXPLORER_OPTIONS: { id: ExplorerId; label: string }[] = [
+    { id: 'solscan', label: 'Solscan' },
+    { id: 'solana-explorer', label: 'Solana Explorer' },
+    { id: 'custom', label: 'Custom' },
+];
+
+export const DEFAULT_EXPLORER_SETTINGS: ExplorerSettings = {
+    explorer: 'solscan',
+    customTemplate: 'https://explorer.solana.com/tx/{signature}?cluster={cluster}&customUrl={customUrl}',
+};
+
+export const loadExplorerSettings = (): ExplorerSettings => {
+    if (typeof window === 'undefined') return DEFAULT_EXPLORER_SETTINGS;
+    try {
+        return { ...DEFAULT_EXPLORER_SETTINGS, ...JSON.parse(localStorage.getItem(EXPLORER_SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_EXPLORER_SETTINGS;
+    }
+};
+
+export const saveExplorerSettings = (settings: ExplorerSettings) => {
+    localStorage.setItem(EXPLORER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Cluster a transaction was sent to, in the form explorers take as query parameters
+export interface ExplorerCluster {
+    cluster: 'mainnet-beta' | 'devnet' | 'testnet' | 'custom';
+    customUrl: string | null;
+}
+
+/**
+ * RPC URL safe to hand to an explorer, null when it may carry an API key. Providers put keys in
+ * the query string or in the path (QuickNode's /<token>/, Alchemy's /v2/<key>), so only a bare
+ * origin is passed on.
+ */
+const getShareableRpcUrl = (rpcUrl: string): string | null => {
+    try {
+        const url = new URL(rpcUrl);
+        if (url.username || url.password || url.search || url.hash || url.pathname !== '/') return null;
+        return url.origin;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Explorers only know the public clusters, so Atlasnet and custom networks are linked as a
+ * custom cluster pointing at the RPC the transaction was sent through, when that RPC's URL can
+ * be shared. A custom network on a devnet or testnet RPC links to that cluster instead.
+ */
+export const getExplorerCluster = (network: NetworkProfile, rpcUrl: string): ExplorerCluster => {
+    if (network.explorerCluster !== 'custom') return { cluster: network.explorerCluster, customUrl: null };
+    if (/devnet/i.test(rpcUrl)) return { cluster: 'devnet', customUrl: null };
+    if (/testnet/i.test(rpcUrl)) return { cluster: 'testnet', customUrl: null };
+    return { cluster: 'custom', customUrl: getShareableRpcUrl(rpcUrl) };
+};
+
+/**
+ * Link to a transaction, null when the explorer cannot show it: a custom cluster whose RPC URL
+ * is not shareable. Solscan has no custom clusters, those link to Solana Explorer instead.
+ */
+export const getExplorerTxUrl = (signature: string, cluster: ExplorerCluster, settings: ExplorerSettings): string | null => {
+    // Checked again for entries saved before URLs were screened
+    const customUrl = cluster.customUrl && getShareableRpcUrl(cluster.customUrl);
+    if (cluster.cluster === 'custom' && !customUrl) return null;
+
+    if (settings.explorer === 'custom') {
+        return settings.customTemplate
+            .replace(/\{signature\}/g, signature)
+            .replace(/\{cluster\}/g, cluster.cluster)
+            .replace(/\{customUrl\}/g, encodeURIComponent(customUrl ?? ''));
+    }
+    const base = settings.explorer === 'solscan' && cluster.cluster !== 'custom' ? 'https://solscan.io/tx/' : 'https://explorer.solana.com/tx/';
+    const params = new URLSearchParams();
+    if (cluster.cluster !== 'mainnet-beta') params.set('cluster', cluster.cluster);
+    if (customUrl) params.set('customUrl', customUrl);
+    const query = params.toString();
+    return `${base}${signature}${query ? `?${query}` : ''}`;
+};
@@ -0,0 +1,59 @@
+import { BN } from '@staratlas/anchor';
+import { EXPIRING_SOON_HOURS_KEY } from './constants';
+
+export type KeyExpiryStatus = 'active' | 'expiring' | 'expired';
+
+export const DEFAULT_EXPIRING_SOON_HOURS = 72;
+
+// Order used when sorting keys by status, most urgent first
+export const KEY_EXPIRY_STATUS_ORDER: KeyExpiryStatus[] = ['expired', 'expiring', 'active'];
+
+export const loadExpiringSoonHours = (): number => {
+    if (typeof window === 'undefined') return DEFAULT_EXPIRING_SOON_HOURS;
+    const saved = Number(localStorage.getItem(EXPIRING_SOON_HOURS_KEY));
+    return Number.isFinite(saved) && saved > 0 ? saved : DEFAULT_EXPIRING_SOON_HOURS;
+};
+
+export const saveExpiringSoonHours = (hours: number) => {
+    localStorage.setItem(EXPIRING_SOON_HOURS_KEY, String(hours));
+};
+
+// Unix seconds a key expires at, null when it never does (stored on-chain as a negative value)
+export const getKeyExpireTime = (expireTime: BN): number | null => (expireTime.ltn(0) ? null : expireTime.toNumber());
+
+/**
+ * Classifies a key against cluster time, as the program does when the key is used. Keys expire
+ * once the Clock sysvar's unix timestamp reaches their expire time.
+ */
+export const classifyKeyExpiry = (expireTime: number | null, clusterTime: number, expiringSoonHours: number): KeyExpiryStatus => {
+    if (expireTime === null) return 'active';
+    if (expireTime <= clusterTime) return 'expired';
+    return expireTime - clusterTime <= expiringSoonHours * 3600 ? 'expiring' : 'active';
+};
+
+const DURATION_UNITS: [string, number][] = [
+    ['d', 86400],
+    ['h', 3600],
+    ['m', 60],
+    ['s', 1],
+];
+
+// "3d 4h", "2h 5m", "45s": the two largest non-zero units
+export const formatDuration = (seconds: number): string => {
+    let remaining = Math.max(0, Math.floor(seconds));
+    const parts: string[] = [];
+    for (const [unit, size] of DURATION_UNITS) {
+        if (parts.length === 2) break;
+        const value = Math.floor(remaining / size);
+        remaining -= value * size;
+        if (value > 0 || parts.length > 0) parts.push(`${value}${unit}`);
+    }
+    return parts.filter(p => !p.startsWith('0')).join(' ') || '0s';
+};
+
+// "in 3d 4h", "expired 2h ago" or "Never"
+export const describeKeyExpiry = (expireTime: number | null, clusterTime: number): string => {
+    if (expireTime === null) return 'Never';
+    const delta = expireTime - clusterTime;
+    return delta > 0 ? `in ${formatDuration(delta)}` : `expired ${formatDuration(-delta)} ago`;
+};
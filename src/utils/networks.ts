@@ -0,0 +1,55 @@
+import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
+import { PublicKey } from '@solana/web3.js';
+import { CUSTOM_PROGRAM_ID_KEY, PLAYER_PROFILE_PROGRAM_ID } from './constants';
+import { ExplorerCluster } from './explorer';
+
+export type NetworkId = 'mainnet' | 'atlasnet' | 'custom';
+
+/**
+ * Everything that changes together when switching networks. RPC and websocket endpoints are
+ * saved per network in the endpoint manager under the network's id.
+ */
+export interface NetworkProfile {
+    id: NetworkId;
+    label: string;
+    programId: PublicKey | null; // null when entered by the user
+    explorerCluster: ExplorerCluster['cluster'];
+    // Wallet adapters only know the public clusters, other networks sign as mainnet
+    walletNetwork: WalletAdapterNetwork;
+}
+
+export const NETWORK_PROFILES: NetworkProfile[] = [
+    {
+        id: 'mainnet',
+        label: 'Solana Mainnet',
+        programId: PLAYER_PROFILE_PROGRAM_ID,
+        explorerCluster: 'mainnet-beta',
+        walletNetwork: WalletAdapterNetwork.Mainnet,
+    },
+    {
+        id: 'atlasnet',
+        label: 'Atlasnet',
+        programId: new PublicKey('PprofUW1pURCnMW2si88GWPXEEK3Bvh9Tksy8WtnoYJ'),
+        explorerCluster: 'custom',
+        walletNetwork: WalletAdapterNetwork.Mainnet,
+    },
+    {
+        id: 'custom',
+        label: 'Custom',
+        programId: null,
+        explorerCluster: 'custom',
+        walletNetwork: WalletAdapterNetwork.Mainnet,
+    },
+];
+
+export const getNetworkProfile = (id: string): NetworkProfile =>
+    NETWORK_PROFILES.find(n => n.id === id) || NETWORK_PROFILES[0];
+
+export const loadCustomProgramId = (): string => {
+    if (typeof window === 'undefined') return '';
+    return localStorage.getItem(CUSTOM_PROGRAM_ID_KEY) || '';
+};
+
+export const saveCustomProgramId = (programId: string) => {
+    localStorage.setItem(CUSTOM_PROGRAM_ID_KEY, programId);
+};
@@ -0,0 +1,113 @@
+import {
+    Connection,
+    Keypair,
+    NONCE_ACCOUNT_LENGTH,
+    PublicKey,
+    SystemInstruction,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+} from '@solana/web3.js';
+import { NONCE_ACCOUNTS_KEY } from './constants';
+
+export const loadSavedNonceAccounts = (): string[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        return JSON.parse(localStorage.getItem(NONCE_ACCOUNTS_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const storeNonceAccounts = (accounts: string[]) => {
+    localStorage.setItem(NONCE_ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+export const saveNonceAccount = (address: string) => {
+    const accounts = loadSavedNonceAccounts();
+    if (!accounts.includes(address)) {
+        storeNonceAccounts([...accounts, address]);
+    }
+};
+
+export const forgetNonceAccount = (address: string) => {
+    storeNonceAccounts(loadSavedNonceAccounts().filter(a => a !== address));
+};
+
+/**
+ * Builds a transaction creating a rent-exempt nonce account controlled by `authority`.
+ * The returned keypair must co-sign the transaction.
+ */
+export const buildCreateNonceAccountTx = async (
+    connection: Connection,
+    payer: PublicKey,
+    authority: PublicKey
+): Promise<{ transaction: Transaction; nonceKeypair: Keypair }> => {
+    const nonceKeypair = Keypair.generate();
+    const lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+    const transaction = SystemProgram.createNonceAccount({
+        fromPubkey: payer,
+        noncePubkey: nonceKeypair.publicKey,
+        authorizedPubkey: authority,
+        lamports,
+    });
+    transaction.feePayer = payer;
+    return { transaction, nonceKeypair };
+};
+
+// Withdrawing the full balance closes the nonce account and returns its rent
+export const buildCloseNonceAccountTx = (
+    noncePubkey: PublicKey,
+    authority: PublicKey,
+    lamports: number
+): Transaction => {
+    const transaction = new Transaction().add(
+        SystemProgram.nonceWithdraw({
+            noncePubkey,
+            authorizedPubkey: authority,
+            toPubkey: authority,
+            lamports,
+        })
+    );
+    transaction.feePayer = authority;
+    return transaction;
+};
+
+/**
+ * Returns the nonce account a transaction advances, if it is a durable nonce transaction.
+ * Durable nonce transactions must start with an advanceNonceAccount instruction.
+ */
+export const getDurableNonceInfo = (tx: Transaction): { noncePubkey: PublicKey; authorizedPubkey: PublicKey } | null => {
+    const first = tx.instructions[0];
+    if (!first || !first.programId.equals(SystemProgram.programId)) return null;
+    try {
+        if (SystemInstruction.decodeInstructionType(first) !== 'AdvanceNonceAccount') return null;
+        return SystemInstruction.decodeNonceAdvance(first);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Reads a nonce account for a transaction that should not expire. Returns the advanceNonceAccount
+ * instruction that must come first and the nonce that replaces the recent blockhash. The nonce
+ * authority signs the advance, so it must be one of `signers`.
+ */
+export const getNonceAdvance = async (
+    connection: Connection,
+    noncePubkey: PublicKey,
+    signers: PublicKey[]
+): Promise<{ instruction: TransactionInstruction; nonce: string }> => {
+    const nonceAccount = await connection.getNonce(noncePubkey);
+    if (!nonceAccount) {
+        throw new Error('Nonce account is not initialized');
+    }
+    const authority = nonceAccount.authorizedPubkey;
+    if (!signers.some(s => s.equals(authority))) {
+        throw new Error(`Nonce authority ${authority.toBase58()} is not one of the signers`);
+    }
+    return {
+        instruction: SystemProgram.nonceAdvance({ noncePubkey, authorizedPubkey: authority }),
+        nonce: nonceAccount.nonce,
+    };
+};
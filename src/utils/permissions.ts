@@ -0,0 +1,184 @@
+import { PublicKey } from '@solana/web3.js';
+import type { CrewPermissions } from '@staratlas/crew';
+import { FixedSizeArray, fixedSizeArray } from '@staratlas/data-source';
+import { PermissionType, ProfilePermissions } from '@staratlas/player-profile';
+import { CREW_PROGRAM_ID, PROFILE_FACTION_PROGRAM_ID, SAGE_PROGRAM_ID } from './constants';
+
+type NotPermissionFlag = 'getPermissions' | 'and' | 'or' | 'eq' | 'contains';
+
+export type ProfilePermissionFlag = Exclude<keyof ProfilePermissions, NotPermissionFlag>;
+export type CrewPermissionFlag = Exclude<keyof CrewPermissions, NotPermissionFlag>;
+
+// A named permission flag. Flag lists are in bit order, so a flag's position is its bit
+export interface PermissionFlagOption<F extends string = string> {
+    flag: F;
+    label: string;
+}
+
+export const PROFILE_PERMISSION_FLAGS: PermissionFlagOption<ProfilePermissionFlag>[] = [
+    { flag: 'auth', label: 'Auth' },
+    { flag: 'addKeys', label: 'Add Keys' },
+    { flag: 'removeKeys', label: 'Remove Keys' },
+    { flag: 'changeName', label: 'Change Name' },
+    { flag: 'createRole', label: 'Create Role' },
+    { flag: 'removeRole', label: 'Remove Role' },
+    { flag: 'setAuthorizer', label: 'Set Authorizer' },
+    { flag: 'joinRole', label: 'Join Role' },
+    { flag: 'leaveRole', label: 'Leave Role' },
+    { flag: 'toggleAcceptingMembers', label: 'Toggle Accepting Members' },
+    { flag: 'addMember', label: 'Add Member' },
+    { flag: 'removeMember', label: 'Remove Member' },
+];
+
+export const CREW_PERMISSION_FLAGS: PermissionFlagOption<CrewPermissionFlag>[] = [
+    { flag: 'registerSftRedemption', label: 'Register SFT Redemption' },
+    { flag: 'registerPackType', label: 'Register Pack Type' },
+    { flag: 'managePackTiers', label: 'Manage Pack Tiers' },
+    { flag: 'mintCrewCards', label: 'Mint Crew Cards' },
+    { flag: 'provideServerHash', label: 'Provide Server Hash' },
+];
+
+export const FACTION_PERMISSION_FLAGS: PermissionFlagOption[] = [
+    { flag: 'setFaction', label: 'Set Faction' },
+];
+
+// Program a key is scoped to, with the flag names that program gives the permission bits
+export interface PermissionScope {
+    name: string;
+    flags: PermissionFlagOption[];
+}
+
+// SAGE's flags are not published in an SDK this tool depends on, so its keys show the raw bitmask like unknown scopes
+const KNOWN_SCOPES: [PublicKey, PermissionScope][] = [
+    [SAGE_PROGRAM_ID, { name: 'SAGE', flags: [] }],
+    [CREW_PROGRAM_ID, { name: 'Crew', flags: CREW_PERMISSION_FLAGS }],
+    [PROFILE_FACTION_PROGRAM_ID, { name: 'Faction', flags: FACTION_PERMISSION_FLAGS }],
+];
+
+/**
+ * Resolves a key's scope to a known program. The profile program is matched against the
+ * program in use, since its ID differs between networks. Returns null for unknown scopes.
+ */
+export const getPermissionScope = (scope: PublicKey, profileProgramId: PublicKey): PermissionScope | null => {
+    if (scope.equals(profileProgramId)) return { name: 'Profile', flags: PROFILE_PERMISSION_FLAGS };
+    return KNOWN_SCOPES.find(([programId]) => programId.equals(scope))?.[1] ?? null;
+};
+
+/**
+ * Scope-agnostic permission set backed by the raw 8 permission bytes of a profile key.
+ * The SDK's own ProfilePermissions only knows the profile program flags, so keys scoped
+ * to other programs are built through this class instead.
+ */
+export class RawPermissions implements PermissionType<RawPermissions> {
+    constructor(private readonly bytes: FixedSizeArray<number, 8>) {}
+
+    static empty(): RawPermissions {
+        return new RawPermissions(fixedSizeArray(8, 0));
+    }
+
+    static all(): RawPermissions {
+        return new RawPermissions(fixedSizeArray(8, 0xff));
+    }
+
+    static fromPermissions(permissions: FixedSizeArray<number, 8>): RawPermissions {
+        return new RawPermissions([...permissions] as FixedSizeArray<number, 8>);
+    }
+
+    static fromProfilePermissions(permissions: ProfilePermissions): RawPermissions {
+        return RawPermissions.fromPermissions(permissions.getPermissions());
+    }
+
+    // Permissions with exactly the given flags set
+    static fromFlags<F extends string>(options: PermissionFlagOption<F>[], flags: F[]): RawPermissions {
+        return RawPermissions.fromBits(options.flatMap(({ flag }, bit) => (flags.includes(flag) ? [bit] : [])));
+    }
+
+    static fromBits(bits: number[]): RawPermissions {
+        const bytes = fixedSizeArray(8, 0);
+        for (const bit of bits) {
+            if (!Number.isInteger(bit) || bit < 0 || bit > 63) {
+                throw new Error(`Permission bit ${bit} is out of range`);
+            }
+            bytes[bit >> 3] |= 1 << (bit & 7);
+        }
+        return new RawPermissions(bytes);
+    }
+
+    /** Parses a little-endian u64 bitmask such as `0x1f` */
+    static fromHex(hex: string): RawPermissions {
+        const value = BigInt(hex.trim().startsWith('0x') ? hex.trim() : `0x${hex.trim()}`);
+        if (value < 0n || value > 0xffffffffffffffffn) {
+            throw new Error('Permission bitmask must fit in 64 bits');
+        }
+        const bytes = fixedSizeArray(8, 0);
+        for (let i = 0; i < 8; i++) {
+            bytes[i] = Number((value >> BigInt(i * 8)) & 0xffn);
+        }
+        return new RawPermissions(bytes);
+    }
+
+    getPermissions(): FixedSizeArray<number, 8> {
+        return [...this.bytes] as FixedSizeArray<number, 8>;
+    }
+
+    toHex(): string {
+        const hex = [...this.bytes].reverse().map(b => b.toString(16).padStart(2, '0')).join('');
+        return `0x${hex.replace(/^0+(?=.)/, '')}`;
+    }
+
+    isEmpty(): boolean {
+        return this.bytes.every(b => b === 0);
+    }
+
+    has(bit: number): boolean {
+        return (this.bytes[bit >> 3] & (1 << (bit & 7))) !== 0;
+    }
+
+    // Every set bit out of the 64, lowest first
+    bits(): number[] {
+        return Array.from({ length: 64 }, (_, bit) => bit).filter(bit => this.has(bit));
+    }
+
+    // Named flags that are set, ignoring bits the option list has no name for
+    flags<F extends string>(options: PermissionFlagOption<F>[]): F[] {
+        return options.filter((_, bit) => this.has(bit)).map(({ flag }) => flag);
+    }
+
+    without(other: RawPermissions): RawPermissions {
+        const otherBytes = other.getPermissions();
+        return new RawPermissions(this.bytes.map((b, i) => b & ~otherBytes[i]) as FixedSizeArray<number, 8>);
+    }
+
+    or(other: RawPermissions): RawPermissions {
+        const otherBytes = other.getPermissions();
+        return new RawPermissions(this.bytes.map((b, i) => b | otherBytes[i]) as FixedSizeArray<number, 8>);
+    }
+
+    and(other: RawPermissions): RawPermissions {
+        const otherBytes = other.getPermissions();
+        return new RawPermissions(this.bytes.map((b, i) => b & otherBytes[i]) as FixedSizeArray<number, 8>);
+    }
+
+    eq(other: RawPermissions): boolean {
+        const otherBytes = other.getPermissions();
+        return this.bytes.every((b, i) => b === otherBytes[i]);
+    }
+
+    contains(other: RawPermissions): boolean {
+        return this.and(other).eq(other);
+    }
+}
+
+// Labels for every set bit, named by the scope's flags where known and `Bit n` otherwise
+export const describePermissions = (permissions: FixedSizeArray<number, 8>, scope: PermissionScope | null): string[] =>
+    RawPermissions.fromPermissions(permissions).bits().map(bit => scope?.flags[bit]?.label ?? `Bit ${bit}`);
+
+/**
+ * Profile program permissions of a key. Bits of keys scoped to other programs mean something
+ * else entirely, so those keys hold no profile permissions.
+ */
+export const profilePermissionsOf = (
+    key: { scope: PublicKey; permissions: FixedSizeArray<number, 8> },
+    profileProgramId: PublicKey
+): ProfilePermissions =>
+    key.scope.equals(profileProgramId) ? ProfilePermissions.fromPermissions(key.permissions) : ProfilePermissions.empty();
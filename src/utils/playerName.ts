@@ -0,0 +1,26 @@
+import { PlayerName } from '@staratlas/player-profile';
+import { MAX_PROFILE_NAME_BYTES } from './constants';
+
+const CONTROL_CHARS = /\p{Cc}/u;
+
+export const encodeProfileName = (name: string): Uint8Array => new TextEncoder().encode(name);
+
+// Size of the PlayerName account holding the given name
+export const playerNameAccountSize = (name: string): number =>
+    PlayerName.MIN_DATA_SIZE + encodeProfileName(name).length;
+
+/**
+ * Returns why a name cannot be stored on the profile, or null when it is valid.
+ * The program stores raw bytes, so the name is checked to survive a UTF-8 round trip.
+ */
+export const validateProfileName = (name: string): string | null => {
+    if (name.length === 0) return 'Enter a name';
+    if (name.trim() !== name) return 'Name cannot start or end with whitespace';
+    if (CONTROL_CHARS.test(name)) return 'Name cannot contain control characters';
+    const bytes = encodeProfileName(name);
+    if (new TextDecoder().decode(bytes) !== name) return 'Name is not valid UTF-8 text';
+    if (bytes.length > MAX_PROFILE_NAME_BYTES) {
+        return `Name is ${bytes.length} bytes, the limit is ${MAX_PROFILE_NAME_BYTES} bytes of UTF-8`;
+    }
+    return null;
+};
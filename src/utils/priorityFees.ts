@@ -0,0 +1,171 @@
+import {
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    Transaction,
+    TransactionInstruction,
+} from '@solana/web3.js';
+import { PRIORITY_FEE_SETTINGS_KEY } from './constants';
+import { getDurableNonceInfo } from './nonce';
+import { simulateTransaction } from './simulation';
+
+// Runtime limits used when a transaction does not set its own compute unit limit
+export const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+export const LAMPORTS_PER_SIGNATURE = 5000;
+
+// Headroom added on top of the simulated compute units in auto mode
+const SIMULATED_UNITS_MARGIN = 1.2;
+
+// Lowest price auto mode pays. Recent fees are per-slot minimums and often read zero even when
+// fee-less transactions are being dropped, 10k micro-lamports costs 0.000002 SOL at 200k units.
+export const MIN_PRIORITY_FEE_MICRO_LAMPORTS = 10_000;
+
+export type PriorityFeeMode = 'auto' | 'manual';
+
+export interface PriorityFeeSettings {
+    mode: PriorityFeeMode;
+    // Manual mode only. Auto mode estimates the price and simulates the compute units.
+    microLamports: number;
+    computeUnitLimit: number;
+}
+
+export const DEFAULT_PRIORITY_FEE_SETTINGS: PriorityFeeSettings = {
+    mode: 'auto',
+    microLamports: 0,
+    computeUnitLimit: DEFAULT_UNITS_PER_INSTRUCTION,
+};
+
+export const loadPriorityFeeSettings = (): PriorityFeeSettings => {
+    if (typeof window === 'undefined') return DEFAULT_PRIORITY_FEE_SETTINGS;
+    try {
+        return { ...DEFAULT_PRIORITY_FEE_SETTINGS, ...JSON.parse(localStorage.getItem(PRIORITY_FEE_SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_PRIORITY_FEE_SETTINGS;
+    }
+};
+
+export const savePriorityFeeSettings = (settings: PriorityFeeSettings) => {
+    localStorage.setItem(PRIORITY_FEE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const feeAtPercentile = (fees: number[], percentile: number): number => {
+    if (fees.length === 0) return 0;
+    const sorted = [...fees].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * percentile))];
+};
+
+/**
+ * Compute unit price, in micro-lamports, at the given percentile of the fees recently paid by
+ * transactions writing to `accounts`. Slots without a priority fee count as zero. Profile
+ * accounts are rarely written by anyone else, so when none of their samples carry a fee the
+ * estimate falls back to the fees paid across the whole cluster.
+ */
+export const estimatePriorityFee = async (connection: Connection, accounts: PublicKey[], percentile = 0.75): Promise<number> => {
+    if (accounts.length > 0) {
+        const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+        const fees = recent.map(f => f.prioritizationFee);
+        if (fees.some(fee => fee > 0)) return feeAtPercentile(fees, percentile);
+    }
+    const global = await connection.getRecentPrioritizationFees();
+    return feeAtPercentile(global.map(f => f.prioritizationFee), percentile);
+};
+
+// Compute budget instructions that set a priority fee, to be placed at the start of a transaction
+export const priorityFeeInstructions = (microLamports: number): TransactionInstruction[] =>
+    microLamports > 0 ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })] : [];
+
+/**
+ * Stand-in compute budget instructions for packInstructions prefixes. They are the same size as
+ * the real ones, which applyPriorityFee swaps in once each transaction is packed.
+ */
+export const computeBudgetPlaceholder = (): TransactionInstruction[] => [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: 0 }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+];
+
+const isComputeBudgetInstruction = (ix: TransactionInstruction) => ix.programId.equals(ComputeBudgetProgram.programId);
+
+// Writable accounts other than signers, i.e. the profile accounts a transaction contends for
+const contendedAccounts = (tx: Transaction): PublicKey[] => {
+    const accounts = new Map<string, PublicKey>();
+    for (const ix of tx.instructions) {
+        for (const meta of ix.keys) {
+            if (meta.isWritable && !meta.isSigner) accounts.set(meta.pubkey.toBase58(), meta.pubkey);
+        }
+    }
+    return [...accounts.values()];
+};
+
+/**
+ * Replaces the compute budget instructions of an unsigned transaction with ones from `settings`,
+ * placed after its durable nonce advance if it has one. Auto mode prices at the recent fees paid
+ * for the transaction's profile accounts, never below MIN_PRIORITY_FEE_MICRO_LAMPORTS, and limits
+ * compute units to a simulation of the transaction.
+ */
+export const applyPriorityFee = async (
+    connection: Connection,
+    tx: Transaction,
+    settings: PriorityFeeSettings = loadPriorityFeeSettings()
+): Promise<Transaction> => {
+    tx.instructions = tx.instructions.filter(ix => !isComputeBudgetInstruction(ix));
+
+    let microLamports = settings.microLamports;
+    let units: number | null = settings.computeUnitLimit;
+    if (settings.mode === 'auto') {
+        const [price, simulation] = await Promise.all([
+            estimatePriorityFee(connection, contendedAccounts(tx)),
+            simulateTransaction(connection, tx).catch(() => null),
+        ]);
+        microLamports = Math.max(MIN_PRIORITY_FEE_MICRO_LAMPORTS, price);
+        // Transactions that only succeed after earlier ones, such as later parts of a batch, keep the runtime default
+        units = simulation?.success && simulation.unitsConsumed
+            ? Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.ceil(simulation.unitsConsumed * SIMULATED_UNITS_MARGIN))
+            : null;
+    }
+
+    const budget = [
+        ...(units ? [ComputeBudgetProgram.setComputeUnitLimit({ units })] : []),
+        ...priorityFeeInstructions(microLamports),
+    ];
+    const insertAt = getDurableNonceInfo(tx) ? 1 : 0;
+    tx.instructions.splice(insertAt, 0, ...budget);
+    return tx;
+};
+
+export interface FeeEstimate {
+    signatures: number;
+    computeUnitLimit: number;
+    microLamports: number;
+    baseFee: number; // Lamports
+    priorityFee: number; // Lamports
+    total: number; // Lamports
+}
+
+// Fee a transaction will be charged, read from its signers and compute budget instructions
+export const estimateTransactionFee = (tx: Transaction): FeeEstimate => {
+    const signers = new Set<string>();
+    if (tx.feePayer) signers.add(tx.feePayer.toBase58());
+    tx.instructions.forEach(ix => ix.keys.forEach(k => k.isSigner && signers.add(k.pubkey.toBase58())));
+
+    let limit: number | null = null;
+    let microLamports = 0;
+    for (const ix of tx.instructions.filter(isComputeBudgetInstruction)) {
+        try {
+            const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+            if (type === 'SetComputeUnitLimit') limit = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+            if (type === 'SetComputeUnitPrice') microLamports = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports);
+        } catch {
+            // Other compute budget instructions do not affect the fee
+        }
+    }
+    const computeUnitLimit = limit ?? Math.min(
+        MAX_COMPUTE_UNIT_LIMIT,
+        DEFAULT_UNITS_PER_INSTRUCTION * tx.instructions.filter(ix => !isComputeBudgetInstruction(ix)).length
+    );
+
+    const baseFee = signers.size * LAMPORTS_PER_SIGNATURE;
+    const priorityFee = Math.ceil(microLamports * computeUnitLimit / 1_000_000);
+    return { signatures: signers.size, computeUnitLimit, microLamports, baseFee, priorityFee, total: baseFee + priorityFee };
+};
@@ -0,0 +1,53 @@
+import { PublicKey } from '@solana/web3.js';
+import { AsyncSigner, createDummyAsyncSigner } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram, ProfileKeyInput, ProfilePermissions } from '@staratlas/player-profile';
+import { profilePermissionsOf } from './permissions';
+
+/**
+ * Merges key indexes into contiguous [start, end) ranges for removeKeys, highest range first.
+ * Removing from the top down keeps the indexes of the ranges still to be removed valid.
+ */
+export const mergeKeyRanges = (indexes: number[]): [number, number][] => {
+    const sorted = Array.from(new Set(indexes)).sort((a, b) => a - b);
+    const ranges: [number, number][] = [];
+    for (const index of sorted) {
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === index) {
+            last[1] = index + 1;
+        } else {
+            ranges.push([index, index + 1]);
+        }
+    }
+    return ranges.reverse();
+};
+
+// Index a key ends up at once the given ranges have been removed below it
+export const shiftKeyIndex = (index: number, removedRanges: [number, number][]): number =>
+    removedRanges.reduce((acc, [start, end]) => (end <= index ? acc - (end - start) : acc), index);
+
+export interface AuthKeyEntry {
+    key: PublicKey;
+    index: number;
+}
+
+// Auth keys of a profile with their index in the key list
+export const getAuthKeys = (profile: PlayerProfile, programId: PublicKey): AuthKeyEntry[] =>
+    profile.profileKeys.flatMap((k, index) =>
+        profilePermissionsOf(k, programId).auth ? [{ key: k.key, index }] : []
+    );
+
+/**
+ * Key input for an auth key that signs adjustAuth. Keys other than the connected wallet
+ * sign later through signature collection, so only their address is needed here.
+ */
+export const authKeyInput = (
+    program: PlayerProfileIDLProgram,
+    profile: PlayerProfile,
+    entry: AuthKeyEntry,
+    walletSigner: AsyncSigner
+): ProfileKeyInput<ProfilePermissions, AsyncSigner> => ({
+    playerProfileProgram: program,
+    profileKey: profile.key,
+    key: entry.key.equals(walletSigner.publicKey()) ? walletSigner : createDummyAsyncSigner(entry.key),
+    keyIndex: entry.index,
+});
@@ -0,0 +1,74 @@
+import { PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { AsyncSigner, ixReturnsToIxs } from '@staratlas/data-source';
+import { PlayerProfile, PlayerProfileIDLProgram } from '@staratlas/player-profile';
+import { profilePermissionsOf } from './permissions';
+import { mergeKeyRanges, shiftKeyIndex } from './profileKeys';
+import { packInstructions } from './transactions';
+
+// Index of the key a wallet signs removeKeys with, mirroring the SDK's key lookup
+export const getRemovalKeyIndex = (profile: PlayerProfile, programId: PublicKey, walletKey: PublicKey): number =>
+    profile.profileKeys.findIndex(k => {
+        if (!k.key.equals(walletKey)) return false;
+        const perms = profilePermissionsOf(k, programId);
+        return perms.auth || perms.removeKeys;
+    });
+
+// Index of the wallet's auth key, which removing non-auth keys never touches
+export const getAuthKeyIndex = (profile: PlayerProfile, programId: PublicKey, walletKey: PublicKey): number =>
+    profile.profileKeys.findIndex(k => k.key.equals(walletKey) && profilePermissionsOf(k, programId).auth);
+
+export interface KeyRemovalBatch {
+    transactions: Transaction[];
+    keyCounts: number[]; // Number of keys removed by each transaction
+}
+
+/**
+ * Builds removeKeys instructions for any set of key indexes, one per contiguous range, and packs
+ * them into as few transactions as fit. Ranges are removed from the highest down and the signing
+ * key's index shifts once ranges below it are gone. The transactions must be sent in order.
+ * `prefix` instructions start every transaction, see packInstructions. `signerIndex` picks the
+ * wallet's key to sign with, by default the first one allowed to remove keys.
+ */
+export const buildKeyRemovalBatch = async (
+    program: PlayerProfileIDLProgram,
+    profile: PlayerProfile,
+    walletSigner: AsyncSigner,
+    keyIndexes: number[],
+    prefix: TransactionInstruction[] = [],
+    signerIndex = getRemovalKeyIndex(profile, program.programId, walletSigner.publicKey())
+): Promise<KeyRemovalBatch> => {
+    if (signerIndex === -1) {
+        throw new Error('Connected wallet cannot remove keys from this profile');
+    }
+    if (keyIndexes.includes(signerIndex)) {
+        throw new Error('The key the connected wallet signs with cannot remove itself');
+    }
+
+    const ranges = mergeKeyRanges(keyIndexes);
+    const removed: [number, number][] = [];
+    const instructions: TransactionInstruction[] = [];
+    for (const range of ranges) {
+        instructions.push(...await ixReturnsToIxs(
+            PlayerProfile.removeKeys(
+                program,
+                {
+                    playerProfileProgram: program,
+                    profileKey: profile.key,
+                    key: walletSigner,
+                    keyIndex: shiftKeyIndex(signerIndex, removed),
+                },
+                'funder',
+                range,
+            ),
+            walletSigner,
+        ));
+        removed.push(range);
+    }
+
+    const transactions = packInstructions(instructions, walletSigner.publicKey(), prefix);
+    const rangeSizes = ranges.map(([start, end]) => end - start);
+    const keyCounts = transactions.map(tx =>
+        rangeSizes.splice(0, tx.instructions.length - prefix.length).reduce((a, b) => a + b, 0)
+    );
+    return { transactions, keyCounts };
+};
@@ -0,0 +1,149 @@
+import { clusterApiUrl } from '@solana/web3.js';
+import { RPC_ENDPOINTS_KEY } from './constants';
+
+// Single custom endpoint saved by earlier versions, migrated into the endpoint list
+const LEGACY_RPC_URL_KEY = 'custom_rpc_url';
+
+// Requests slower than this move on to the next endpoint, when there is one
+export const RPC_TIMEOUT_MS = 20_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+export interface RpcEndpoint {
+    id: string;
+    name: string;
+    url: string;
+    wsUrl?: string; // Derived from url by web3.js when not set
+    network: string; // Matches NetworkProfile.id
+}
+
+export interface RpcEndpointStore {
+    endpoints: RpcEndpoint[];
+    primary: Record<string, string>; // Endpoint id chosen as primary, keyed by network
+}
+
+export interface EndpointHealth {
+    healthy: boolean;
+    slot: number | null;
+    latencyMs: number | null;
+    error: string | null;
+    checkedAt: number;
+}
+
+export const DEFAULT_RPC_ENDPOINT: RpcEndpoint = {
+    id: 'solana-public-mainnet',
+    name: 'Solana Public',
+    url: clusterApiUrl('mainnet-beta'),
+    network: 'mainnet',
+};
+
+export const loadRpcEndpoints = (): RpcEndpointStore => {
+    const fallback: RpcEndpointStore = { endpoints: [DEFAULT_RPC_ENDPOINT], primary: {} };
+    if (typeof window === 'undefined') return fallback;
+    try {
+        const saved = localStorage.getItem(RPC_ENDPOINTS_KEY);
+        if (saved) return JSON.parse(saved);
+    } catch {
+        return fallback;
+    }
+
+    const legacyUrl = localStorage.getItem(LEGACY_RPC_URL_KEY);
+    if (!legacyUrl || legacyUrl === DEFAULT_RPC_ENDPOINT.url) return fallback;
+    const migrated: RpcEndpoint = { id: createEndpointId(), name: 'Custom', url: legacyUrl, network: 'mainnet' };
+    const store = { endpoints: [migrated, DEFAULT_RPC_ENDPOINT], primary: { mainnet: migrated.id } };
+    saveRpcEndpoints(store);
+    localStorage.removeItem(LEGACY_RPC_URL_KEY);
+    return store;
+};
+
+export const saveRpcEndpoints = (store: RpcEndpointStore) => {
+    localStorage.setItem(RPC_ENDPOINTS_KEY, JSON.stringify(store));
+};
+
+export const createEndpointId = () => `rpc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Endpoints a network connects through, primary first
+export const getNetworkEndpoints = (store: RpcEndpointStore, network: string): RpcEndpoint[] => {
+    const endpoints = store.endpoints.filter(e => e.network === network);
+    const primaryId = store.primary[network];
+    return [...endpoints.filter(e => e.id === primaryId), ...endpoints.filter(e => e.id !== primaryId)];
+};
+
+const rpcRequest = async (url: string, method: string, timeoutMs: number): Promise<unknown> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method }),
+            signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        const body = await response.json();
+        if (body.error) throw new Error(body.error.message || JSON.stringify(body.error));
+        return body.result;
+    } catch (e) {
+        if (controller.signal.aborted) throw new Error(`No response within ${timeoutMs / 1000}s`);
+        throw e;
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// Runs getHealth and getSlot against an endpoint, timing the getSlot round trip
+export const checkEndpointHealth = async (url: string): Promise<EndpointHealth> => {
+    try {
+        const health = await rpcRequest(url, 'getHealth', HEALTH_CHECK_TIMEOUT_MS);
+        const start = performance.now();
+        const slot = await rpcRequest(url, 'getSlot', HEALTH_CHECK_TIMEOUT_MS);
+        return {
+            healthy: health === 'ok',
+            slot: typeof slot === 'number' ? slot : null,
+            latencyMs: Math.round(performance.now() - start),
+            error: health === 'ok' ? null : `getHealth returned ${JSON.stringify(health)}`,
+            checkedAt: Date.now(),
+        };
+    } catch (e) {
+        return { healthy: false, slot: null, latencyMs: null, error: e instanceof Error ? e.message : String(e), checkedAt: Date.now() };
+    }
+};
+
+/**
+ * A fetch for Connection that retries a request against the next endpoint when the current one
+ * refuses it (403/429) or does not answer in time. `getCandidates` lists the endpoints to try,
+ * active first, and `onFailover` is told when a request succeeded somewhere else.
+ */
+export const createFailoverFetch = (
+    getCandidates: () => string[],
+    onFailover: (from: string, to: string, reason: string) => void
+): typeof fetch => async (input, init) => {
+    const candidates = getCandidates();
+    if (candidates.length <= 1) return fetch(input, init);
+
+    let lastError: unknown = null;
+    let reason = '';
+    for (const [i, url] of candidates.entries()) {
+        const isLast = i === candidates.length - 1;
+        const controller = new AbortController();
+        // The last endpoint is left to answer in its own time, there is nothing left to fail over to
+        const timer = isLast ? null : setTimeout(() => controller.abort(), RPC_TIMEOUT_MS);
+        init?.signal?.addEventListener('abort', () => controller.abort());
+        try {
+            const response = await fetch(url, { ...init, signal: controller.signal });
+            const refused = response.status === 403 || response.status === 429;
+            if (refused && !isLast) {
+                reason = `HTTP ${response.status}`;
+                continue;
+            }
+            if (i > 0 && !refused) onFailover(candidates[0], url, reason);
+            return response;
+        } catch (e) {
+            if (init?.signal?.aborted || isLast) throw e;
+            reason = controller.signal.aborted ? `no response within ${RPC_TIMEOUT_MS / 1000}s` : e instanceof Error ? e.message : String(e);
+            lastError = e;
+        } finally {
+            if (timer) clearTimeout(timer);
+        }
+    }
+    throw lastError;
+};
@@ -0,0 +1,140 @@
+import {
+    Connection,
+    SignatureResult,
+    SignatureStatus,
+    Transaction,
+    TransactionExpiredBlockheightExceededError,
+    TransactionExpiredNonceInvalidError,
+} from '@solana/web3.js';
+import { getDurableNonceInfo } from './nonce';
+
+// How often a pending transaction's status is polled and the transaction sent again
+const REBROADCAST_INTERVAL_MS = 2000;
+
+export type SendStatus = 'sent' | 'confirmed' | 'finalized' | 'expired' | 'failed';
+
+export interface SendOptions {
+    // Block height the transaction's blockhash is valid until, known when the caller fetched it.
+    // Without it the blockhash, or the durable nonce, is checked against the cluster directly.
+    lastValidBlockHeight?: number;
+    commitment?: 'confirmed' | 'finalized';
+    onStatus?: (status: SendStatus, signature: string) => void;
+}
+
+export interface SendResult {
+    signature: string;
+    status: Extract<SendStatus, 'confirmed' | 'finalized' | 'expired'>;
+}
+
+const sleepOrWake = (ms: number, wake: { resolve: () => void }) =>
+    new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, ms);
+        wake.resolve = () => { clearTimeout(timer); resolve(); };
+    });
+
+// Whether a transaction that has not landed can no longer land
+const hasExpired = async (connection: Connection, tx: Transaction, lastValidBlockHeight?: number): Promise<boolean> => {
+    const nonceInfo = getDurableNonceInfo(tx);
+    if (nonceInfo) {
+        const nonce = await connection.getNonce(nonceInfo.noncePubkey, 'confirmed');
+        return nonce?.nonce !== tx.recentBlockhash;
+    }
+    if (lastValidBlockHeight !== undefined) {
+        return await connection.getBlockHeight('confirmed') > lastValidBlockHeight;
+    }
+    return !(await connection.isBlockhashValid(tx.recentBlockhash!, { commitment: 'confirmed' })).value;
+};
+
+/**
+ * Sends a signed transaction and rebroadcasts it until it lands or can no longer land.
+ * The signature status is polled, with a websocket subscription as a fallback for when
+ * polling fails or lags. An expired transaction can never land, so it is safe to sign it
+ * again. Throws if the transaction fails, reporting 'failed' to `onStatus` first.
+ */
+export const sendAndTrack = async (
+    connection: Connection,
+    tx: Transaction,
+    { lastValidBlockHeight, commitment = 'confirmed', onStatus }: SendOptions = {}
+): Promise<SendResult> => {
+    const raw = tx.serialize();
+    const signature = await connection.sendRawTransaction(raw, { maxRetries: 0 });
+    onStatus?.('sent', signature);
+
+    const wake = { resolve: () => {} };
+    const notified: { result: SignatureResult | null } = { result: null };
+    const subscription = connection.onSignature(signature, result => {
+        notified.result = result;
+        wake.resolve();
+    }, commitment);
+
+    const fail = (err: unknown): never => {
+        onStatus?.('failed', signature);
+        throw new Error(`Transaction ${signature} failed: ${JSON.stringify(err)}`);
+    };
+
+    let reportedConfirmed = false;
+    try {
+        for (;;) {
+            if (notified.result) {
+                if (notified.result.err) fail(notified.result.err);
+                onStatus?.(commitment, signature);
+                return { signature, status: commitment };
+            }
+
+            let status: SignatureStatus | null = null;
+            try {
+                status = (await connection.getSignatureStatuses([signature])).value[0];
+            } catch (e) {
+                console.warn('Signature status poll failed, waiting on the websocket subscription:', e);
+            }
+            if (status?.err) fail(status.err);
+            if (status?.confirmationStatus === 'finalized') {
+                onStatus?.('finalized', signature);
+                return { signature, status: 'finalized' };
+            }
+            if (status?.confirmationStatus === 'confirmed') {
+                if (commitment === 'confirmed') {
+                    onStatus?.('confirmed', signature);
+                    return { signature, status: 'confirmed' };
+                }
+                if (!reportedConfirmed) onStatus?.('confirmed', signature);
+                reportedConfirmed = true;
+            }
+
+            if (!status && await hasExpired(connection, tx, lastValidBlockHeight).catch(() => false)) {
+                // Only report expiry once the transaction is known not to have landed, so a retry never applies it twice
+                const history = (await connection.getSignatureStatuses([signature], { searchTransactionHistory: true })).value[0];
+                if (!history) {
+                    onStatus?.('expired', signature);
+                    return { signature, status: 'expired' };
+                }
+                // It landed, even if the recent status poll (possibly on another endpoint) missed it
+                if (history.err) fail(history.err);
+                const landed = history.confirmationStatus === 'finalized' ? 'finalized' : 'confirmed';
+                onStatus?.(landed, signature);
+                return { signature, status: landed };
+            }
+
+            await sleepOrWake(REBROADCAST_INTERVAL_MS, wake);
+            if (!notified.result && !status?.confirmationStatus) {
+                await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }).catch(() => undefined);
+            }
+        }
+    } finally {
+        connection.removeSignatureListener(subscription).catch(() => undefined);
+    }
+};
+
+/**
+ * Sends a signed transaction with sendAndTrack and resolves with its signature once it lands.
+ * Throws the same expiry errors as Connection.confirmTransaction, so they decode the same way.
+ */
+export const sendAndConfirm = async (connection: Connection, tx: Transaction, options: SendOptions = {}): Promise<string> => {
+    const { signature, status } = await sendAndTrack(connection, tx, options);
+    if (status === 'expired') {
+        throw getDurableNonceInfo(tx)
+            ? new TransactionExpiredNonceInvalidError(signature)
+            : new TransactionExpiredBlockheightExceededError(signature);
+    }
+    return signature;
+};
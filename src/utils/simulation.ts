@@ -0,0 +1,46 @@
+import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { AnchorError } from '@staratlas/anchor';
+import { getDurableNonceInfo } from './nonce';
+
+export interface SimulationOutcome {
+    success: boolean;
+    logs: string[];
+    unitsConsumed: number | null;
+    error: string | null;
+    anchorError: { code: string; number: number; message: string; program: string } | null;
+}
+
+/**
+ * Simulates a legacy transaction without requiring its signatures.
+ * Durable nonce transactions keep their nonce, everything else is simulated
+ * against the latest blockhash so unsent and stale transactions still run.
+ */
+export const simulateTransaction = async (connection: Connection, tx: Transaction): Promise<SimulationOutcome> => {
+    const isNonce = getDurableNonceInfo(tx) !== null;
+    const simTx = new Transaction({
+        feePayer: tx.feePayer,
+        // Any well-formed hash works here, the RPC replaces it
+        blockhash: tx.recentBlockhash || PublicKey.default.toBase58(),
+        lastValidBlockHeight: 0,
+    }).add(...tx.instructions);
+
+    const { value } = await connection.simulateTransaction(
+        new VersionedTransaction(simTx.compileMessage()),
+        { sigVerify: false, replaceRecentBlockhash: !isNonce, commitment: 'confirmed' }
+    );
+
+    const logs = value.logs || [];
+    const anchorError = AnchorError.parse(logs);
+    return {
+        success: value.err === null,
+        logs,
+        unitsConsumed: value.unitsConsumed ?? null,
+        error: value.err === null ? null : JSON.stringify(value.err),
+        anchorError: anchorError && {
+            code: anchorError.error.errorCode.code,
+            number: anchorError.error.errorCode.number,
+            message: anchorError.error.errorMessage,
+            program: anchorError.program.toBase58(),
+        },
+    };
+};
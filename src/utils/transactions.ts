@@ -0,0 +1,115 @@
+import { PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { MAX_TRANSACTION_SIZE, getTransactionSize } from '@staratlas/data-source';
+
+// Serialized size of a set of instructions when sent as a single transaction
+export const getInstructionsSize = (instructions: TransactionInstruction[], feePayer: PublicKey): number =>
+    getTransactionSize(instructions.map(instruction => ({ instruction, signers: [] })), feePayer).size;
+
+/**
+ * Packs instructions, in order, into as few transactions as fit within the transaction size limit.
+ * `prefix` instructions, such as compute budget settings, start every transaction and count toward its size.
+ * Throws if a single instruction does not fit on its own.
+ */
+export const packInstructions = (
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    prefix: TransactionInstruction[] = []
+): Transaction[] => {
+    const batches: TransactionInstruction[][] = [];
+    let current: TransactionInstruction[] = [];
+
+    for (const ix of instructions) {
+        if (current.length > 0 && getInstructionsSize([...prefix, ...current, ix], feePayer) > MAX_TRANSACTION_SIZE) {
+            batches.push(current);
+            current = [];
+        }
+        if (current.length === 0 && getInstructionsSize([...prefix, ix], feePayer) > MAX_TRANSACTION_SIZE) {
+            throw new Error('Instruction does not fit in a single transaction');
+        }
+        current.push(ix);
+    }
+    if (current.length > 0) {
+        batches.push(current);
+    }
+
+    return batches.map(batch => {
+        const tx = new Transaction().add(...prefix, ...batch);
+        tx.feePayer = feePayer;
+        return tx;
+    });
+};
+
+// Marks JSON files exported by this tool so they can be told apart from a bare base64 blob
+const PARTIAL_TRANSACTION_FILE_TYPE = 'player-profile-partial-transaction';
+
+export interface PartialTransactionExport {
+    type: typeof PARTIAL_TRANSACTION_FILE_TYPE;
+    version: 1;
+    operation: string;
+    profile: string;
+    transaction: string; // Base64 encoded, partially signed
+    exportedAt: number;
+}
+
+export const createPartialTransactionExport = (
+    transaction: string,
+    operation: string,
+    profile: string
+): PartialTransactionExport => ({
+    type: PARTIAL_TRANSACTION_FILE_TYPE,
+    version: 1,
+    operation,
+    profile,
+    transaction,
+    exportedAt: Date.now(),
+});
+
+/**
+ * Parses either an exported JSON file or a bare base64 transaction.
+ * Signatures already present on the transaction are kept.
+ */
+export const parsePartialTransaction = (input: string): { transaction: Transaction; meta: PartialTransactionExport | null } => {
+    const trimmed = input.trim();
+    let meta: PartialTransactionExport | null = null;
+    let encoded = trimmed;
+
+    if (trimmed.startsWith('{')) {
+        const parsed = JSON.parse(trimmed);
+        if (parsed?.type !== PARTIAL_TRANSACTION_FILE_TYPE || typeof parsed.transaction !== 'string') {
+            throw new Error('Not a partially signed transaction export');
+        }
+        meta = parsed as PartialTransactionExport;
+        encoded = meta.transaction;
+    }
+
+    try {
+        return { transaction: Transaction.from(Buffer.from(encoded, 'base64')), meta };
+    } catch {
+        throw new Error('Could not decode transaction. Expected a base64 encoded transaction.');
+    }
+};
+
+// Required signers of a transaction and whether each has signed yet
+export const getSignerStatuses = (tx: Transaction): { publicKey: PublicKey; signed: boolean }[] =>
+    tx.signatures.map(({ publicKey, signature }) => ({
+        publicKey,
+        signed: signature !== null && signature.some(b => b !== 0),
+    }));
+
+/**
+ * Copies the signatures of another copy of the same transaction onto `target`.
+ * Throws if the copy signs a different message or carries an invalid signature.
+ */
+export const mergeSignatures = (target: Transaction, source: Transaction): Transaction => {
+    if (!source.serializeMessage().equals(target.serializeMessage())) {
+        throw new Error('The signed copy is a different transaction');
+    }
+    const merged = Transaction.from(target.serialize({ requireAllSignatures: false, verifySignatures: false }));
+    for (const { publicKey, signature } of source.signatures) {
+        if (signature && signature.some(b => b !== 0)) merged.addSignature(publicKey, signature);
+    }
+    if (!merged.verifySignatures(false)) {
+        throw new Error('The signed copy carries an invalid signature');
+    }
+    return merged;
+};